@@ -0,0 +1,84 @@
+import d3 from 'd3';
+import {ActivationFunction} from "./nn";
+
+const X_DOMAIN: [number, number] = [-4, 4];
+const NUM_POINTS = 80;
+
+type Point = {
+  x: number;
+  y: number;
+};
+
+/**
+ * Un pequeño gráfico de una función de activación (línea continua) y de su
+ * derivada (línea punteada) en el intervalo [-4, 4].
+ */
+export class ActivationPlot {
+  private xScale;
+  private yScale;
+  private axes;
+  private outputPath;
+  private derPath;
+
+  constructor(container, width: number, height: number) {
+    let svg = container.append("svg")
+      .attr("width", width)
+      .attr("height", height);
+
+    this.xScale = d3.scale.linear()
+      .domain(X_DOMAIN)
+      .range([0, width]);
+
+    this.yScale = d3.scale.linear()
+      .range([height - 1, 1]);
+
+    this.axes = svg.append("g").attr("class", "axes");
+    this.outputPath = svg.append("path")
+      .style({
+        "fill": "none",
+        "stroke": "#0877bd",
+        "stroke-width": "1.5px"
+      });
+    this.derPath = svg.append("path")
+      .style({
+        "fill": "none",
+        "stroke": "#f59322",
+        "stroke-width": "1.5px",
+        "stroke-dasharray": "3,2"
+      });
+  }
+
+  update(activation: ActivationFunction) {
+    let outputs: Point[] = [];
+    let ders: Point[] = [];
+    for (let i = 0; i <= NUM_POINTS; i++) {
+      let x = X_DOMAIN[0] + i * (X_DOMAIN[1] - X_DOMAIN[0]) / NUM_POINTS;
+      outputs.push({x, y: activation.output(x)});
+      ders.push({x, y: activation.der(x)});
+    }
+    let ys = outputs.concat(ders).map(p => p.y);
+    let minY = Math.max(-4, Math.min(-1, d3.min(ys)));
+    let maxY = Math.min(4, Math.max(1, d3.max(ys)));
+    this.yScale.domain([minY, maxY]).clamp(true);
+
+    this.axes.selectAll("line").remove();
+    this.axes.append("line").attr({
+      x1: this.xScale(X_DOMAIN[0]),
+      x2: this.xScale(X_DOMAIN[1]),
+      y1: this.yScale(0),
+      y2: this.yScale(0)
+    }).style("stroke", "#ccc");
+    this.axes.append("line").attr({
+      x1: this.xScale(0),
+      x2: this.xScale(0),
+      y1: this.yScale(minY),
+      y2: this.yScale(maxY)
+    }).style("stroke", "#ccc");
+
+    let line = d3.svg.line<Point>()
+      .x(d => this.xScale(d.x))
+      .y(d => this.yScale(d.y));
+    this.outputPath.attr("d", line(outputs));
+    this.derPath.attr("d", line(ders));
+  }
+}
\ No newline at end of file
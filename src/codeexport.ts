@@ -0,0 +1,279 @@
+import * as nn from "./nn";
+import {getRegistryKey} from "./networkstate";
+
+/** Cómo se calcula una característica de entrada a partir de x e y. */
+export interface FeatureSource {
+  /** Expresión de JavaScript en términos de x e y. */
+  code: string;
+  latex: string;
+}
+
+export enum CodeFormat {
+  TYPESCRIPT,
+  JAVASCRIPT,
+  LATEX,
+  PSEUDOCODE
+}
+
+/** Un término peso * salida de la entrada total de un nodo. */
+type Term = {
+  weight: number;
+  source: nn.Node;
+};
+
+/**
+ * Devuelve el sesgo y los términos con los que se calcula la entrada de la
+ * activación de un nodo en inferencia. Omite los enlaces muertos e incluye
+ * la normalización por lotes en los pesos y el sesgo.
+ */
+function getAffineTerms(node: nn.Node): {bias: number, terms: Term[]} {
+  let scale = 1;
+  let shift = 0;
+  if (node.batchNorm != null) {
+    let affine = node.batchNorm.getInferenceAffine();
+    scale = affine.scale;
+    shift = affine.shift;
+  }
+  let terms = node.inputLinks.filter(link => !link.isDead)
+      .map(link => ({weight: scale * link.weight, source: link.source}));
+  return {bias: scale * node.bias + shift, terms};
+}
+
+/**
+ * Escribe bias + w1 * s1 + w2 * s2 ... restando los pesos negativos en
+ * lugar de sumarlos.
+ */
+function formatSum(bias: number, terms: Term[],
+    formatNumber: (value: number) => string,
+    formatTerm: (weight: string, source: nn.Node) => string): string {
+  let result = formatNumber(bias);
+  terms.forEach(term => {
+    let sign = term.weight < 0 ? " - " : " + ";
+    result += sign + formatTerm(formatNumber(Math.abs(term.weight)),
+        term.source);
+  });
+  return result;
+}
+
+/** Expresión de JavaScript de la activación aplicada a la variable z. */
+function activationCode(key: string, z: string): string {
+  switch (key) {
+    case "TANH":
+      return `Math.tanh(${z})`;
+    case "RELU":
+      return `Math.max(0, ${z})`;
+    case "SIGMOID":
+      return `1 / (1 + Math.exp(-${z}))`;
+    case "LEAKY_RELU":
+      return `${z} > 0 ? ${z} : ${nn.Activations.leakyReluSlope} * ${z}`;
+    case "ELU":
+      return `${z} > 0 ? ${z} : Math.exp(${z}) - 1`;
+    case "SELU":
+      return `${nn.SELU_SCALE} * (${z} > 0 ? ${z} : ` +
+          `${nn.SELU_ALPHA} * (Math.exp(${z}) - 1))`;
+    case "SOFTPLUS":
+      return `${z} > 30 ? ${z} : Math.log(1 + Math.exp(${z}))`;
+    case "SWISH":
+      return `${z} / (1 + Math.exp(-${z}))`;
+    case "GELU":
+      return `0.5 * ${z} * (1 + Math.tanh(${nn.GELU_SCALE} * ` +
+          `(${z} + ${nn.GELU_CUBIC} * ${z} * ${z} * ${z})))`;
+    case "SINE":
+      return `Math.sin(${z})`;
+    case "GAUSSIAN":
+      return `Math.exp(-${z} * ${z})`;
+    default:
+      return z;
+  }
+}
+
+/** Fórmula de LaTeX de la activación aplicada al argumento dado. */
+function activationLatex(key: string, arg: string): string {
+  switch (key) {
+    case "TANH":
+      return `\\tanh\\left(${arg}\\right)`;
+    case "RELU":
+      return `\\max\\left(0,\\ ${arg}\\right)`;
+    case "SIGMOID":
+      return `\\sigma\\left(${arg}\\right)`;
+    case "LEAKY_RELU":
+      return `\\mathrm{LeakyReLU}_{${nn.Activations.leakyReluSlope}}` +
+          `\\left(${arg}\\right)`;
+    case "ELU":
+    case "SELU":
+    case "GELU":
+      return `\\mathrm{${key}}\\left(${arg}\\right)`;
+    case "SOFTPLUS":
+      return `\\log\\left(1 + e^{${arg}}\\right)`;
+    case "SWISH":
+      return `\\mathrm{swish}\\left(${arg}\\right)`;
+    case "SINE":
+      return `\\sin\\left(${arg}\\right)`;
+    case "GAUSSIAN":
+      return `e^{-\\left(${arg}\\right)^2}`;
+    default:
+      return arg;
+  }
+}
+
+/**
+ * Convierte la red en un módulo sin dependencias con una función
+ * predict(x, y) que reproduce la salida de la red en inferencia.
+ *
+ * @param features Cómo calcular cada característica de entrada de la red.
+ */
+function exportCode(network: nn.Node[][],
+    features: {[id: string]: FeatureSource}, typed: boolean): string {
+  let outputLayer = network[network.length - 1];
+  let isSoftmax = outputLayer[0].activation === nn.Activations.SOFTMAX;
+  let returnType = outputLayer.length > 1 ? "number[]" : "number";
+  let name = (node: nn.Node) =>
+      node.id in features ? node.id : "h" + node.id;
+  let lines = [
+    "// Neural network exported from the neural network playground.",
+    "// It has no dependencies: call predict(x, y) with a point in the " +
+        "plane.",
+    ""
+  ];
+  if (isSoftmax) {
+    lines.push(typed ?
+        "function softmax(logits: number[]): number[] {" :
+        "function softmax(logits) {");
+    lines.push("  const max = Math.max(...logits);");
+    lines.push("  const exps = logits.map(logit => Math.exp(logit - max));");
+    lines.push("  const sum = exps.reduce((a, b) => a + b, 0);");
+    lines.push("  return exps.map(e => e / sum);");
+    lines.push("}");
+    lines.push("");
+  }
+  lines.push(typed ?
+      `export function predict(x: number, y: number): ${returnType} {` :
+      "export function predict(x, y) {");
+  network[0].forEach(node => {
+    if (features[node.id].code !== node.id) {
+      lines.push(`  const ${node.id} = ${features[node.id].code};`);
+    }
+  });
+  for (let layerIdx = 1; layerIdx < network.length; layerIdx++) {
+    network[layerIdx].forEach(node => {
+      let affine = getAffineTerms(node);
+      let sum = formatSum(affine.bias, affine.terms, String,
+          (weight, source) => `${weight} * ${name(source)}`);
+      lines.push(`  const z${node.id} = ${sum};`);
+      if (!isSoftmax || layerIdx < network.length - 1) {
+        let key = getRegistryKey(nn.Activations, node.activation);
+        lines.push(`  const ${name(node)} = ` +
+            `${activationCode(key, "z" + node.id)};`);
+      }
+    });
+  }
+  if (isSoftmax) {
+    let logits = outputLayer.map(node => "z" + node.id).join(", ");
+    lines.push(`  return softmax([${logits}]);`);
+  } else if (outputLayer.length > 1) {
+    lines.push(`  return [${outputLayer.map(name).join(", ")}];`);
+  } else {
+    lines.push(`  return ${name(outputLayer[0])};`);
+  }
+  lines.push("}");
+  return lines.join("\n") + "\n";
+}
+
+/** Escribe las ecuaciones de la red en LaTeX, una por nodo. */
+function exportLatex(network: nn.Node[][],
+    features: {[id: string]: FeatureSource}): string {
+  let outputLayer = network[network.length - 1];
+  let isSoftmax = outputLayer[0].activation === nn.Activations.SOFTMAX;
+  let name = (node: nn.Node) => {
+    if (node.id in features) {
+      return features[node.id].latex;
+    }
+    if (outputLayer.indexOf(node) === -1) {
+      return `h_{${node.id}}`;
+    }
+    return outputLayer.length > 1 ?
+        `\\hat{y}_{${outputLayer.indexOf(node) + 1}}` : "\\hat{y}";
+  };
+  let formatNumber = (value: number) => value.toFixed(3);
+  let lines = [
+    "% Neural network exported from the neural network playground.",
+    "\\begin{aligned}"
+  ];
+  for (let layerIdx = 1; layerIdx < network.length; layerIdx++) {
+    network[layerIdx].forEach(node => {
+      let affine = getAffineTerms(node);
+      let sum = formatSum(affine.bias, affine.terms, formatNumber,
+          (weight, source) => `${weight}\\,${name(source)}`);
+      if (isSoftmax && layerIdx === network.length - 1) {
+        lines.push(`z_{${node.id}} &= ${sum} \\\\`);
+      } else {
+        let key = getRegistryKey(nn.Activations, node.activation);
+        lines.push(`${name(node)} &= ${activationLatex(key, sum)} \\\\`);
+      }
+    });
+  }
+  if (isSoftmax) {
+    let denominator = outputLayer.map(node => `e^{z_{${node.id}}}`)
+        .join(" + ");
+    outputLayer.forEach(node => {
+      lines.push(`${name(node)} &= ` +
+          `\\frac{e^{z_{${node.id}}}}{${denominator}} \\\\`);
+    });
+  }
+  lines.push("\\end{aligned}");
+  return lines.join("\n") + "\n";
+}
+
+/** Escribe la red como pseudocódigo, una asignación por nodo. */
+function exportPseudoCode(network: nn.Node[][],
+    features: {[id: string]: FeatureSource}): string {
+  let outputLayer = network[network.length - 1];
+  let isSoftmax = outputLayer[0].activation === nn.Activations.SOFTMAX;
+  let name = (node: nn.Node) =>
+      node.id in features ? node.id : "h" + node.id;
+  let formatNumber = (value: number) => value.toFixed(3);
+  let lines = ["# Neural network exported from the neural network playground."];
+  network[0].forEach(node => {
+    if (features[node.id].code !== node.id) {
+      lines.push(`${node.id} = ${features[node.id].code}`);
+    }
+  });
+  for (let layerIdx = 1; layerIdx < network.length; layerIdx++) {
+    network[layerIdx].forEach(node => {
+      let affine = getAffineTerms(node);
+      let sum = formatSum(affine.bias, affine.terms, formatNumber,
+          (weight, source) => `${weight} * ${name(source)}`);
+      let key = getRegistryKey(nn.Activations, node.activation);
+      if (key === "LINEAR" ||
+          (isSoftmax && layerIdx === network.length - 1)) {
+        lines.push(`${name(node)} = ${sum}`);
+      } else {
+        lines.push(`${name(node)} = ${key.toLowerCase()}(${sum})`);
+      }
+    });
+  }
+  let outputs = outputLayer.map(name).join(", ");
+  lines.push(isSoftmax ? `output = softmax(${outputs})` :
+      `output = ${outputs}`);
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Exporta la red entrenada en el formato dado.
+ *
+ * @param features Cómo calcular cada característica de entrada de la red,
+ *     por su id.
+ */
+export function exportNetwork(network: nn.Node[][],
+    features: {[id: string]: FeatureSource}, format: CodeFormat): string {
+  switch (format) {
+    case CodeFormat.TYPESCRIPT:
+      return exportCode(network, features, true);
+    case CodeFormat.JAVASCRIPT:
+      return exportCode(network, features, false);
+    case CodeFormat.LATEX:
+      return exportLatex(network, features);
+    case CodeFormat.PSEUDOCODE:
+      return exportPseudoCode(network, features);
+  }
+}
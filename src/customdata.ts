@@ -0,0 +1,334 @@
+import {DataGenerator, Example2D, copyPoint, getLabels} from "./dataset";
+import {Problem} from "./state";
+
+/** Clave de localStorage con los conjuntos de datos importados. */
+const STORAGE_KEY = "customDatasets";
+/** Fracción del dominio que ocupan los puntos después de reescalarlos. */
+const FILL = 0.9;
+const MIN_POINTS = 10;
+/** Clases de clasificación multiclase, como en el control de clases. */
+const MIN_CLASSES = 3;
+const MAX_CLASSES = 6;
+
+/** Una tabla leída de un archivo, con cada valor como texto. */
+export interface DataTable {
+  columns: string[];
+  rows: string[][];
+}
+
+/**
+ * Índices de las columnas con las coordenadas y con las etiquetas. Con dos
+ * columnas de etiquetas, el conjunto es de regresión con dos objetivos.
+ */
+export interface ColumnMapping {
+  x: number;
+  y: number;
+  labels: number[];
+}
+
+/** Un conjunto de datos importado, ya validado y reescalado. */
+export interface CustomDataset {
+  name: string;
+  problem: Problem;
+  /** Cantidad de clases en clasificación multiclase, o 0. */
+  numClasses: number;
+  points: Example2D[];
+}
+
+function check(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+function checkName(name: string): void {
+  check(typeof name === "string" && /^[A-Za-z0-9_-]+$/.test(name),
+      "The name can only have letters, digits, - and _");
+}
+
+function isNumber(text: string): boolean {
+  return text.trim() !== "" && isFinite(Number(text));
+}
+
+/**
+ * Lee un CSV con una fila de encabezados. El separador puede ser una coma,
+ * un punto y coma o un tabulador; los valores no pueden contener el
+ * separador. Si la primera fila es numérica, se toma como datos y las
+ * columnas se numeran.
+ */
+function parseCsv(text: string): DataTable {
+  let lines = text.split(/\r?\n/).filter(line => line.trim() !== "");
+  check(lines.length > 1, "The file must have a header and some rows");
+  let separator = [",", ";", "\t"]
+      .sort((a, b) => lines[0].split(b).length - lines[0].split(a).length)[0];
+  let rows = lines.map(line => line.split(separator)
+      .map(cell => cell.trim().replace(/^"(.*)"$/, "$1")));
+  let columns = rows[0];
+  if (columns.every(isNumber)) {
+    columns = columns.map((column, i) => `column ${i + 1}`);
+  } else {
+    rows = rows.slice(1);
+  }
+  rows.forEach((row, i) => {
+    check(row.length === columns.length, `Row ${i + 1} has ${row.length} ` +
+        `values but there are ${columns.length} columns`);
+  });
+  return {columns, rows};
+}
+
+/**
+ * Lee un JSON con un arreglo de puntos, ya sea en la raíz o en la propiedad
+ * points. Cada punto es un objeto, cuyas claves son las columnas, o un
+ * arreglo de valores.
+ */
+function parseJson(text: string): DataTable {
+  let value: any;
+  try {
+    value = JSON.parse(text);
+  } catch (e) {
+    throw new Error("The file is not valid JSON");
+  }
+  let items: any[] = value != null && value.points instanceof Array ?
+      value.points : value;
+  check(items instanceof Array && items.length > 0,
+      "The JSON must be an array of points");
+  let first = items[0];
+  check(first != null && typeof first === "object",
+      "Each point must be an object or an array");
+  let keys: string[] = first instanceof Array ?
+      first.map((cell, i) => String(i)) : Object.keys(first);
+  let columns = first instanceof Array ?
+      keys.map(key => `column ${+key + 1}`) : keys;
+  let rows = items.map((item, i) => {
+    check(item != null && typeof item === "object",
+        `Point ${i + 1} must be an object or an array`);
+    return keys.map(key => item[key] != null ? String(item[key]) : "");
+  });
+  return {columns, rows};
+}
+
+/** Lee el contenido de un archivo CSV o JSON según su nombre. */
+export function parseTable(text: string, fileName: string): DataTable {
+  let isJson = /\.json$/i.test(fileName) || /^\s*[\[{]/.test(text);
+  return isJson ? parseJson(text) : parseCsv(text);
+}
+
+/**
+ * Elige las columnas llamadas x, y y label (o class o target) y, si no
+ * las hay, las tres primeras.
+ */
+export function guessMapping(table: DataTable): ColumnMapping {
+  let find = (pattern: RegExp, fallback: number) => {
+    for (let i = 0; i < table.columns.length; i++) {
+      if (pattern.test(table.columns[i])) {
+        return i;
+      }
+    }
+    return Math.min(fallback, table.columns.length - 1);
+  };
+  return {
+    x: find(/^x$/i, 0),
+    y: find(/^y$/i, 1),
+    labels: [find(/^(label|class|target)$/i, 2)]
+  };
+}
+
+/** Ordena los valores distintos, como números si todos lo son. */
+function getDistinctValues(values: string[]): string[] {
+  let distinct: string[] = [];
+  values.forEach(value => {
+    if (distinct.indexOf(value) === -1) {
+      distinct.push(value);
+    }
+  });
+  return distinct.every(isNumber) ?
+      distinct.sort((a, b) => Number(a) - Number(b)) : distinct.sort();
+}
+
+/** Lleva los valores de forma lineal a [-1, 1]. */
+function rescaleLabels(values: number[]): number[] {
+  let min = Math.min.apply(null, values);
+  let max = Math.max.apply(null, values);
+  return values.map(value => max > min ?
+      2 * (value - min) / (max - min) - 1 : 0);
+}
+
+/**
+ * Convierte una tabla en un conjunto de datos. El tipo de problema sale de
+ * las etiquetas: dos valores distintos son clasificación binaria, de 3 a 6
+ * son clasificación multiclase y más valores numéricos son regresión. Los
+ * puntos se reescalan, conservando su forma, para llenar domain en ambos
+ * ejes, y los objetivos de regresión se llevan a [-1, 1].
+ *
+ * @throws Error si el nombre, las columnas o algún valor no son válidos.
+ */
+export function buildDataset(name: string, table: DataTable,
+    mapping: ColumnMapping, domain: number[]): CustomDataset {
+  checkName(name);
+  check(table.rows.length >= MIN_POINTS,
+      `The dataset needs at least ${MIN_POINTS} points`);
+  let getNumbers = (column: number) => table.rows.map((row, i) => {
+    check(isNumber(row[column]), `Row ${i + 1}: "${row[column]}" in ` +
+        `column ${table.columns[column]} is not a number`);
+    return Number(row[column]);
+  });
+  let xs = getNumbers(mapping.x);
+  let ys = getNumbers(mapping.y);
+
+  let problem = Problem.REGRESSION;
+  let numClasses = 0;
+  let labels: number[][];
+  if (mapping.labels.length === 1) {
+    let column = mapping.labels[0];
+    let values = table.rows.map(row => row[column]);
+    let classes = getDistinctValues(values);
+    if (classes.length === 2) {
+      problem = Problem.CLASSIFICATION;
+      labels = values.map(value => [value === classes[0] ? -1 : 1]);
+    } else if (classes.length >= MIN_CLASSES &&
+        classes.length <= MAX_CLASSES) {
+      problem = Problem.MULTICLASS;
+      numClasses = classes.length;
+      labels = values.map(value => [classes.indexOf(value)]);
+    } else {
+      check(classes.every(isNumber), `The label column has ` +
+          `${classes.length} classes, but classification supports 2 to ` +
+          `${MAX_CLASSES}`);
+    }
+  }
+  if (problem === Problem.REGRESSION) {
+    let targets = mapping.labels.map(column => rescaleLabels(
+        getNumbers(column)));
+    labels = xs.map((x, i) => targets.map(target => target[i]));
+  }
+
+  let minX = Math.min.apply(null, xs);
+  let maxX = Math.max.apply(null, xs);
+  let minY = Math.min.apply(null, ys);
+  let maxY = Math.max.apply(null, ys);
+  let span = Math.max(maxX - minX, maxY - minY) || 1;
+  let scale = FILL * (domain[1] - domain[0]) / span;
+  let center = (domain[0] + domain[1]) / 2;
+  let points = xs.map((x, i) => {
+    let point: Example2D = {
+      x: center + (x - (minX + maxX) / 2) * scale,
+      y: center + (ys[i] - (minY + maxY) / 2) * scale,
+      label: labels[i][0]
+    };
+    if (labels[i].length > 1) {
+      point.labels = labels[i];
+    }
+    return point;
+  });
+  return {name, problem, numClasses, points};
+}
+
+/** La clave con la que se elige el conjunto en la URL. */
+export function getCustomDatasetKey(dataset: CustomDataset): string {
+  return "custom-" + dataset.name;
+}
+
+/** Un generador que devuelve una copia de los puntos importados. */
+export function toGenerator(dataset: CustomDataset): DataGenerator {
+  return () => dataset.points.map(copyPoint);
+}
+
+/**
+ * Revisa un conjunto leído del navegador con las mismas reglas que
+ * buildDataset, por si se guardó con otra versión o se modificó a mano.
+ *
+ * @throws Error si el conjunto no es válido.
+ */
+function checkDataset(dataset: CustomDataset): void {
+  check(dataset != null && typeof dataset === "object",
+      "The dataset must be an object");
+  checkName(dataset.name);
+  check(dataset.points instanceof Array &&
+      dataset.points.length >= MIN_POINTS,
+      `The dataset needs at least ${MIN_POINTS} points`);
+  let isValidLabel: (label: number) => boolean;
+  if (dataset.problem === Problem.CLASSIFICATION) {
+    isValidLabel = label => label === -1 || label === 1;
+  } else if (dataset.problem === Problem.MULTICLASS) {
+    check(dataset.numClasses >= MIN_CLASSES &&
+        dataset.numClasses <= MAX_CLASSES, "Invalid number of classes");
+    isValidLabel = label => label % 1 === 0 && label >= 0 &&
+        label < dataset.numClasses;
+  } else {
+    check(dataset.problem === Problem.REGRESSION, "Unknown problem type");
+    isValidLabel = label => typeof label === "number" && isFinite(label);
+  }
+  let numLabels = getLabels(dataset.points[0]).length;
+  check(numLabels === 1 ||
+      (dataset.problem === Problem.REGRESSION && numLabels === 2),
+      "Invalid number of targets");
+  dataset.points.forEach((point, i) => {
+    check(point != null && typeof point.x === "number" &&
+        isFinite(point.x) && typeof point.y === "number" && isFinite(point.y),
+        `Point ${i + 1} has invalid coordinates`);
+    let labels = point.labels != null ? point.labels : [point.label];
+    check(labels instanceof Array && labels.length === numLabels &&
+        labels.every(isValidLabel) && point.label === labels[0],
+        `Point ${i + 1} has an invalid label`);
+  });
+}
+
+/**
+ * Los conjuntos guardados en el navegador. Si localStorage no está
+ * disponible o su contenido no es válido, no hay ninguno. Los conjuntos
+ * que no son válidos se descartan y se borran.
+ */
+export function loadCustomDatasets(): CustomDataset[] {
+  let stored: any[];
+  try {
+    let json = window.localStorage.getItem(STORAGE_KEY);
+    stored = json != null ? JSON.parse(json) : [];
+  } catch (e) {
+    return [];
+  }
+  if (!(stored instanceof Array)) {
+    return [];
+  }
+  let datasets = stored.filter((dataset: CustomDataset) => {
+    try {
+      checkDataset(dataset);
+      return true;
+    } catch (e) {
+      return false;
+    }
+  });
+  if (datasets.length < stored.length) {
+    try {
+      storeCustomDatasets(datasets);
+    } catch (e) {
+      // Se vuelven a descartar en la próxima carga.
+    }
+  }
+  return datasets;
+}
+
+function storeCustomDatasets(datasets: CustomDataset[]): void {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(datasets));
+  } catch (e) {
+    throw new Error("The browser could not store the dataset");
+  }
+}
+
+/**
+ * Guarda el conjunto en el navegador, reemplazando al que tenga el mismo
+ * nombre.
+ *
+ * @throws Error si no se pudo guardar, p. ej. por falta de espacio.
+ */
+export function saveCustomDataset(dataset: CustomDataset): void {
+  storeCustomDatasets(loadCustomDatasets()
+      .filter(saved => saved.name !== dataset.name)
+      .concat([dataset]));
+}
+
+/** Borra del navegador el conjunto con el nombre dado. */
+export function removeCustomDataset(name: string): void {
+  storeCustomDatasets(loadCustomDatasets()
+      .filter(saved => saved.name !== name));
+}
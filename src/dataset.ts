@@ -1,8 +1,16 @@
 import d3 from 'd3';
+import {RandomFunction} from "./random";
+/**
+ * Un punto del plano con su etiqueta. En clasificación binaria la etiqueta
+ * es +1/-1, en clasificación multiclase es el índice de la clase (0..K-1) y
+ * en regresión es el valor a predecir. En regresión con varios objetivos,
+ * labels tiene el valor de cada uno y label es el primero.
+ */
 export type Example2D = {
   x: number,
   y: number,
-  label: number
+  label: number,
+  labels?: number[]
 };
 
 type Point = {
@@ -10,20 +18,42 @@ type Point = {
   y: number
 };
 
-export function shuffle(array: any[]): void {
-  let counter = array.length;
-  let temp = 0;
-  let index = 0;
-  while (counter > 0) {
-    index = Math.floor(Math.random() * counter);
-    counter--;
-    temp = array[counter];
-    array[counter] = array[index];
-    array[index] = temp;
+/** Los objetivos de regresión del punto, uno por salida de la red. */
+export function getLabels(point: Example2D): number[] {
+  return point.labels != null ? point.labels : [point.label];
+}
+
+/** Una copia del punto que se puede modificar sin cambiar el original. */
+export function copyPoint(point: Example2D): Example2D {
+  let copy: Example2D = {x: point.x, y: point.y, label: point.label};
+  if (point.labels != null) {
+    copy.labels = point.labels.slice();
   }
+  return copy;
 }
 
-export type DataGenerator = (numSamples: number, noise: number) => Example2D[];
+export type DataGenerator =
+    (numSamples: number, noise: number, numClasses?: number) => Example2D[];
+
+/** El generador aleatorio de los puntos; generatePoints lo cambia. */
+let random: RandomFunction = Math.random;
+
+/**
+ * Genera los puntos con el generador aleatorio dado en lugar de
+ * Math.random, de modo que con la misma semilla se obtienen siempre los
+ * mismos puntos.
+ */
+export function generatePoints(generator: DataGenerator,
+    dataRandom: RandomFunction, numSamples: number, noise: number,
+    numClasses?: number): Example2D[] {
+  let previous = random;
+  random = dataRandom;
+  try {
+    return generator(numSamples, noise, numClasses);
+  } finally {
+    random = previous;
+  }
+}
 
 export function classifyTwoGaussData(numSamples: number, noise: number):
     Example2D[] {
@@ -105,6 +135,57 @@ export function regressGaussian(numSamples: number, noise: number):
   return points;
 }
 
+/**
+ * Dos objetivos lineales: el primero crece a lo largo de x + y, como en
+ * regressPlane, y el segundo a lo largo de x - y.
+ */
+export function regressTwoPlanes(numSamples: number, noise: number):
+    Example2D[] {
+  let radius = 6;
+  let labelScale = d3.scale.linear()
+    .domain([-10, 10])
+    .range([-1, 1]);
+
+  let points: Example2D[] = [];
+  for (let i = 0; i < numSamples; i++) {
+    let x = randUniform(-radius, radius);
+    let y = randUniform(-radius, radius);
+    let noiseX = randUniform(-radius, radius) * noise;
+    let noiseY = randUniform(-radius, radius) * noise;
+    let labels = [
+      labelScale(x + noiseX + y + noiseY),
+      labelScale(x + noiseX - y - noiseY)
+    ];
+    points.push({x, y, label: labels[0], labels});
+  }
+  return points;
+}
+
+/**
+ * Dos objetivos no lineales: un anillo que vale 1 en el centro y -1 lejos
+ * de él, y una onda a lo largo de x.
+ */
+export function regressRingAndWave(numSamples: number, noise: number):
+    Example2D[] {
+  let radius = 6;
+  let ringScale = d3.scale.linear()
+    .domain([0, radius])
+    .range([1, -1])
+    .clamp(true);
+
+  let points: Example2D[] = [];
+  for (let i = 0; i < numSamples; i++) {
+    let x = randUniform(-radius, radius);
+    let y = randUniform(-radius, radius);
+    let noiseX = randUniform(-radius, radius) * noise;
+    let noiseY = randUniform(-radius, radius) * noise;
+    let p = {x: x + noiseX, y: y + noiseY};
+    let labels = [ringScale(dist(p, {x: 0, y: 0})), Math.sin(p.x / 2)];
+    points.push({x, y, label: labels[0], labels});
+  }
+  return points;
+}
+
 export function classifySpiralData(numSamples: number, noise: number):
     Example2D[] {
   let points: Example2D[] = [];
@@ -176,9 +257,69 @@ export function classifyXORData(numSamples: number, noise: number):
   return points;
 }
 
+export function classifyMultiGaussData(numSamples: number, noise: number,
+    numClasses = 3): Example2D[] {
+  let points: Example2D[] = [];
+
+  let varianceScale = d3.scale.linear().domain([0, .5]).range([0.3, 3]);
+  let variance = varianceScale(noise);
+  let radius = 3.5;
+  for (let label = 0; label < numClasses; label++) {
+    let angle = 2 * Math.PI * label / numClasses;
+    let cx = radius * Math.cos(angle);
+    let cy = radius * Math.sin(angle);
+    for (let i = 0; i < numSamples / numClasses; i++) {
+      let x = normalRandom(cx, variance);
+      let y = normalRandom(cy, variance);
+      points.push({x, y, label});
+    }
+  }
+  return points;
+}
+
+export function classifyMultiSpiralData(numSamples: number, noise: number,
+    numClasses = 3): Example2D[] {
+  let points: Example2D[] = [];
+  let n = numSamples / numClasses;
+
+  for (let label = 0; label < numClasses; label++) {
+    let deltaT = 2 * Math.PI * label / numClasses;
+    for (let i = 0; i < n; i++) {
+      let r = i / n * 5;
+      let t = 1.25 * i / n * 2 * Math.PI + deltaT;
+      let x = r * Math.sin(t) + randUniform(-1, 1) * noise;
+      let y = r * Math.cos(t) + randUniform(-1, 1) * noise;
+      points.push({x, y, label});
+    }
+  }
+  return points;
+}
+
+export function classifySectorData(numSamples: number, noise: number,
+    numClasses = 3): Example2D[] {
+  let radius = 5;
+  function getSectorLabel(p: Point) {
+    let angle = Math.atan2(p.y, p.x) + Math.PI;
+    let sector = Math.floor(angle / (2 * Math.PI) * numClasses);
+    return Math.min(sector, numClasses - 1);
+  }
+
+  let points: Example2D[] = [];
+  for (let i = 0; i < numSamples; i++) {
+    let r = randUniform(0.5, radius);
+    let angle = randUniform(0, 2 * Math.PI);
+    let x = r * Math.sin(angle);
+    let y = r * Math.cos(angle);
+    let noiseX = randUniform(-radius, radius) * noise;
+    let noiseY = randUniform(-radius, radius) * noise;
+    let label = getSectorLabel({x: x + noiseX, y: y + noiseY});
+    points.push({x, y, label});
+  }
+  return points;
+}
 
 function randUniform(a: number, b: number) {
-  return Math.random() * (b - a) + a;
+  return random() * (b - a) + a;
 }
 
 /**
@@ -188,8 +329,8 @@ function randUniform(a: number, b: number) {
 function normalRandom(mean = 0, variance = 1): number {
   let v1: number, v2: number, s: number;
   do {
-    v1 = 2 * Math.random() - 1;
-    v2 = 2 * Math.random() - 1;
+    v1 = 2 * random() - 1;
+    v2 = 2 * random() - 1;
     s = v1 * v1 + v2 * v2;
   } while (s > 1);
 
@@ -0,0 +1,187 @@
+import * as nn from "./nn";
+import {buildFromSpec, getNetworkSpec, getParams} from "./networkstate";
+import {seededRandom} from "./random";
+
+/** Diferencia de los parámetros en las diferencias finitas centradas. */
+const EPSILON = 1e-5;
+/** Escala mínima con la que se divide la diferencia de las derivadas. */
+const MIN_SCALE = 1e-7;
+/** Mayor error relativo aceptable al comprobar los gradientes. */
+export const GRADIENT_TOLERANCE = 1e-2;
+/** Semilla por omisión de los datos y los pesos de checkAllFunctions. */
+const CHECK_SEED = "gradient-check";
+
+/** Resultado de la comprobación de los parámetros de una capa. */
+export interface LayerGradientCheck {
+  layerIdx: number;
+  /** Mayor error relativo de los pesos que llegan a la capa. */
+  maxWeightError: number;
+  /** Mayor error relativo de los sesgos y de gamma y beta. */
+  maxBiasError: number;
+  /** Id del enlace o nodo con el mayor error de la capa. */
+  worstParamId: string;
+}
+
+/** Un parámetro de la red que se puede leer y modificar. */
+type Param = {
+  id: string;
+  layerIdx: number;
+  isWeight: boolean;
+  get: () => number;
+  set: (value: number) => void;
+  /** La derivada acumulada por backPropBatch. */
+  der: () => number;
+};
+
+function getParamList(network: nn.Node[][]): Param[] {
+  let params: Param[] = [];
+  for (let layerIdx = 1; layerIdx < network.length; layerIdx++) {
+    network[layerIdx].forEach(node => {
+      params.push({id: node.id, layerIdx, isWeight: false,
+          get: () => node.bias, set: value => node.bias = value,
+          der: () => node.accInputDer});
+      let batchNorm = node.batchNorm;
+      if (batchNorm != null) {
+        params.push({id: node.id + " gamma", layerIdx, isWeight: false,
+            get: () => batchNorm.gamma, set: value => batchNorm.gamma = value,
+            der: () => batchNorm.accGammaDer});
+        params.push({id: node.id + " beta", layerIdx, isWeight: false,
+            get: () => batchNorm.beta, set: value => batchNorm.beta = value,
+            der: () => batchNorm.accBetaDer});
+      }
+      node.inputLinks.filter(link => !link.isDead).forEach(link => {
+        params.push({id: link.id, layerIdx, isWeight: true,
+            get: () => link.weight, set: value => link.weight = value,
+            der: () => link.accErrorDer});
+      });
+    });
+  }
+  return params;
+}
+
+/** Suma de la pérdida de todos los ejemplos del lote. */
+function batchLoss(network: nn.Node[][], inputs: number[][],
+    targets: number[][], errorFunc: nn.ErrorFunction): number {
+  nn.forwardPropBatch(network, inputs, true);
+  let loss = 0;
+  nn.getOutputNodes(network).forEach((node, i) => {
+    node.batchOutputs.forEach((output, b) => {
+      loss += errorFunc.error(output, targets[b][i]);
+    });
+  });
+  return loss;
+}
+
+/**
+ * Error relativo entre una derivada analítica y una numérica. Las
+ * derivadas casi nulas, como la del sesgo de un nodo con normalización por
+ * lotes, se comparan en términos absolutos para no amplificar el error de
+ * redondeo de las diferencias finitas.
+ */
+function relativeError(analytic: number, numeric: number): number {
+  let scale = Math.max(Math.abs(analytic) + Math.abs(numeric), MIN_SCALE);
+  return Math.abs(analytic - numeric) / scale;
+}
+
+/**
+ * Compara las derivadas que acumula backPropBatch con diferencias finitas
+ * centradas de la pérdida, perturbando cada peso, sesgo, gamma y beta.
+ * Trabaja sobre una copia, por lo que no modifica la red. La copia no usa
+ * dropout para que la pérdida sea determinista.
+ *
+ * @param inputs Las entradas de un lote de ejemplos.
+ * @param targets Los objetivos de cada ejemplo, uno por nodo de salida.
+ * @return El peor error relativo de cada capa, empezando por la primera
+ *     capa oculta.
+ */
+export function checkGradients(network: nn.Node[][], inputs: number[][],
+    targets: number[][], errorFunc: nn.ErrorFunction): LayerGradientCheck[] {
+  let copy = buildFromSpec(getNetworkSpec(network), getParams(network));
+  nn.forwardPropBatch(copy, inputs, true);
+  nn.backPropBatch(copy, targets, errorFunc);
+  let results: LayerGradientCheck[] = [];
+  for (let layerIdx = 1; layerIdx < copy.length; layerIdx++) {
+    results.push({layerIdx, maxWeightError: 0, maxBiasError: 0,
+        worstParamId: null});
+  }
+  getParamList(copy).forEach(param => {
+    let value = param.get();
+    param.set(value + EPSILON);
+    let lossPlus = batchLoss(copy, inputs, targets, errorFunc);
+    param.set(value - EPSILON);
+    let lossMinus = batchLoss(copy, inputs, targets, errorFunc);
+    param.set(value);
+    let numeric = (lossPlus - lossMinus) / (2 * EPSILON);
+    let error = relativeError(param.der(), numeric);
+    let result = results[param.layerIdx - 1];
+    if (error > Math.max(result.maxWeightError, result.maxBiasError)) {
+      result.worstParamId = param.id;
+    }
+    if (param.isWeight) {
+      result.maxWeightError = Math.max(result.maxWeightError, error);
+    } else {
+      result.maxBiasError = Math.max(result.maxBiasError, error);
+    }
+  });
+  return results;
+}
+
+/** Resultado de la comprobación de una combinación de funciones. */
+export interface FunctionGradientCheck {
+  /** Nombres en nn.Activations y nn.Errors. */
+  activation: string;
+  loss: string;
+  batchNorm: boolean;
+  maxError: number;
+}
+
+/**
+ * Comprueba backPropBatch con cada activación oculta de nn.Activations y
+ * cada función de nn.Errors, con y sin normalización por lotes, en una red
+ * pequeña con datos aleatorios. Cada pérdida se combina con la salida para
+ * la que está pensada: softmax para SOFTMAX_CROSS_ENTROPY, tanh para las
+ * pérdidas de clasificación binaria y lineal para las demás. Los datos y
+ * los pesos salen de la semilla, así que el resultado siempre es el mismo.
+ */
+export function checkAllFunctions(seed = CHECK_SEED):
+    FunctionGradientCheck[] {
+  let random = seededRandom(seed);
+  let outputs: {[loss: string]: nn.ActivationFunction} = {
+    CROSS_ENTROPY: nn.Activations.TANH,
+    HINGE: nn.Activations.TANH,
+    SOFTMAX_CROSS_ENTROPY: nn.Activations.SOFTMAX
+  };
+  let results: FunctionGradientCheck[] = [];
+  for (let activation in nn.Activations) {
+    let activationFunc = nn.Activations[activation];
+    if (typeof activationFunc !== "object" ||
+        activationFunc === nn.Activations.SOFTMAX) {
+      continue;
+    }
+    for (let loss in nn.Errors) {
+      let output = outputs[loss] || nn.Activations.LINEAR;
+      [false, true].forEach(batchNorm => {
+        let isSoftmax = output === nn.Activations.SOFTMAX;
+        let numOutputs = isSoftmax ? 3 : 1;
+        let network = nn.buildNetwork([2, 3, 3, numOutputs], activationFunc,
+            output, null, ["x", "y"], nn.Initializers.UNIFORM, random);
+        nn.setBatchNorm(network, batchNorm);
+        let inputs: number[][] = [];
+        let targets: number[][] = [];
+        for (let b = 0; b < 5; b++) {
+          inputs.push([random() * 4 - 2, random() * 4 - 2]);
+          targets.push(isSoftmax ? [0, 1, 2].map(k => k === b % 3 ? 1 : 0) :
+              [b % 2 === 0 ? 1 : -1]);
+        }
+        let maxError = 0;
+        checkGradients(network, inputs, targets, nn.Errors[loss])
+            .forEach(result => {
+          maxError = Math.max(maxError, result.maxWeightError,
+              result.maxBiasError);
+        });
+        results.push({activation, loss, batchNorm, maxError});
+      });
+    }
+  }
+  return results;
+}
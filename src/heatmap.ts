@@ -6,8 +6,26 @@ export interface HeatMapSettings {
   noSvg?: boolean;
 }
 
+/**
+ * Responden a las ediciones de los puntos sobre el mapa de calor. Reciben
+ * los mismos objetos que se pasaron a updatePoints o a updateTestPoints.
+ */
+export interface PointEditHandlers {
+  /** Clic en una zona sin puntos; con shift, el punto es de la otra clase. */
+  add(x: number, y: number, isOtherClass: boolean): void;
+  /** El punto se soltó en otro lugar después de arrastrarlo. */
+  move(point: Example2D, x: number, y: number): void;
+  /** Clic derecho sobre el punto. */
+  remove(point: Example2D): void;
+}
+
 const NUM_SHADES = 30;
 
+/** Colores de cada clase en los problemas de clasificación multiclase. */
+export const CLASS_COLORS = [
+  "#f59322", "#0877bd", "#2ca02c", "#9467bd", "#d62728", "#17becf"
+];
+
 export class HeatMap {
   private settings: HeatMapSettings = {
     showAxes: false,
@@ -17,8 +35,12 @@ export class HeatMap {
   private yScale;
   private numSamples: number;
   private color;
+  private numClasses = 0;
+  private classColors: string[][] = [];
   private canvas;
   private svg;
+  private editHandlers: PointEditHandlers = null;
+  private drag: d3.behavior.Drag<Example2D> = null;
 
   constructor(
       width: number, numSamples: number, xDomain: [number, number],
@@ -107,18 +129,112 @@ export class HeatMap {
     }
   }
 
-  updateTestPoints(points: Example2D[]): void {
+  /**
+   * Indica cuántas clases tienen las etiquetas de los puntos. Con 0 las
+   * etiquetas se interpretan como valores en [-1, 1].
+   */
+  setNumClasses(numClasses: number): void {
+    this.numClasses = numClasses;
+    this.classColors = CLASS_COLORS.slice(0, numClasses).map(classColor => {
+      let tmpScale = d3.scale.linear<string, string>()
+          .domain([0, 1])
+          .range(["#e8eaeb", classColor])
+          .clamp(true);
+      return d3.range(0, 1 + 1E-9, 1 / NUM_SHADES).map(a => tmpScale(a));
+    });
+  }
+
+  /**
+   * @param getLabel Devuelve el valor con el que se colorea cada punto. Por
+   *     omisión, su etiqueta.
+   */
+  updateTestPoints(points: Example2D[],
+      getLabel?: (point: Example2D) => number): void {
     if (this.settings.noSvg) {
       throw Error("No se pueden agregar puntos porque noSvg=true");
     }
-    this.updateCircles(this.svg.select("g.test"), points);
+    this.updateCircles(this.svg.select("g.test"), points, getLabel);
   }
 
-  updatePoints(points: Example2D[]): void {
+  updatePoints(points: Example2D[],
+      getLabel?: (point: Example2D) => number): void {
     if (this.settings.noSvg) {
       throw Error("No se pueden agregar puntos porque noSvg=true");
     }
-    this.updateCircles(this.svg.select("g.train"), points);
+    this.updateCircles(this.svg.select("g.train"), points, getLabel);
+  }
+
+  /**
+   * Permite agregar puntos con un clic, moverlos arrastrándolos y borrarlos
+   * con un clic derecho. Los cambios en los datos quedan a cargo de
+   * handlers, que luego debe volver a pasar los puntos.
+   */
+  enablePointEditing(handlers: PointEditHandlers): void {
+    if (this.settings.noSvg) {
+      throw Error("No se pueden editar puntos porque noSvg=true");
+    }
+    this.editHandlers = handlers;
+    let plot = this.svg.node();
+    let xScale = this.xScale;
+    let yScale = this.yScale;
+    let width = this.xScale.range()[1];
+    let height = this.yScale.range()[0];
+    let isInside = (px: number, py: number) =>
+        px >= 0 && px <= width && py >= 0 && py <= height;
+
+    d3.select(plot.parentNode)
+      .classed("editable", true)
+      .on("click", () => {
+        let event = d3.event as MouseEvent;
+        // Ignora el clic que cierra un arrastre y los clics sobre un punto.
+        if (event.defaultPrevented ||
+            (event.target as Element).tagName === "circle") {
+          return;
+        }
+        let [px, py] = d3.mouse(plot);
+        if (isInside(px, py)) {
+          handlers.add(xScale.invert(px), yScale.invert(py), event.shiftKey);
+        }
+      });
+
+    let isDragging = false;
+    let hasMoved = false;
+    this.drag = d3.behavior.drag<Example2D>()
+      .on("dragstart", () => {
+        let event = (d3.event as d3.BaseEvent).sourceEvent as MouseEvent;
+        isDragging = event.button === 0;
+        hasMoved = false;
+      })
+      .on("drag", function() {
+        if (!isDragging) {
+          return;
+        }
+        let event = d3.event as d3.DragEvent;
+        hasMoved = true;
+        d3.select(this).attr({
+          cx: Math.max(0, Math.min(width, event.x)),
+          cy: Math.max(0, Math.min(height, event.y))
+        });
+      })
+      .on("dragend", function(point: Example2D) {
+        if (!isDragging || !hasMoved) {
+          return;
+        }
+        isDragging = false;
+        let circle = d3.select(this);
+        handlers.move(point, xScale.invert(+circle.attr("cx")),
+            yScale.invert(+circle.attr("cy")));
+      });
+    this.bindPointEditing(this.svg.selectAll("g.train circle, g.test circle"));
+  }
+
+  private bindPointEditing(circles): void {
+    let handlers = this.editHandlers;
+    circles.call(this.drag)
+      .on("contextmenu", (point: Example2D) => {
+        (d3.event as MouseEvent).preventDefault();
+        handlers.remove(point);
+      });
   }
 
   updateBackground(data: number[][], discretize: boolean): void {
@@ -137,6 +253,11 @@ export class HeatMap {
     for (let y = 0, p = -1; y < dy; ++y) {
       for (let x = 0; x < dx; ++x) {
         let value = data[x][y];
+        if (!isFinite(value)) {
+          // Deja transparentes los valores de una red que divergió.
+          p += 4;
+          continue;
+        }
         if (discretize) {
           value = (value >= 0 ? 1 : -1);
         }
@@ -150,7 +271,58 @@ export class HeatMap {
     context.putImageData(image, 0, 0);
   }
 
-  private updateCircles(container, points: Example2D[]) {
+  /**
+   * Pinta cada píxel con el color de la clase más probable. La intensidad
+   * refleja la confianza de la predicción.
+   *
+   * @param probs Una matriz numMuestras X numMuestras por clase.
+   */
+  updateClassBackground(probs: number[][][], discretize: boolean): void {
+    if (probs.length !== this.numClasses) {
+      throw new Error("Se esperaba una matriz de probabilidades por clase");
+    }
+    let dx = probs[0][0].length;
+    let dy = probs[0].length;
+
+    if (dx !== this.numSamples || dy !== this.numSamples) {
+      throw new Error(
+          "La matriz de datos proporcionada debe tener un tamaño " +
+          "numMuestras X numMuestras");
+    }
+
+    let context = (this.canvas.node() as HTMLCanvasElement).getContext("2d");
+    let image = context.createImageData(dx, dy);
+    let chance = 1 / this.numClasses;
+
+    for (let y = 0, p = -1; y < dy; ++y) {
+      for (let x = 0; x < dx; ++x) {
+        if (!isFinite(probs[0][x][y])) {
+          p += 4;
+          continue;
+        }
+        let best = 0;
+        for (let k = 1; k < this.numClasses; k++) {
+          if (probs[k][x][y] > probs[best][x][y]) {
+            best = k;
+          }
+        }
+        let confidence = discretize ? 1 :
+            (probs[best][x][y] - chance) / (1 - chance);
+        let shades = this.classColors[best];
+        let shade = Math.round(confidence * NUM_SHADES);
+        shade = Math.max(0, Math.min(NUM_SHADES, shade));
+        let c = d3.rgb(shades[shade]);
+        image.data[++p] = c.r;
+        image.data[++p] = c.g;
+        image.data[++p] = c.b;
+        image.data[++p] = 160;
+      }
+    }
+    context.putImageData(image, 0, 0);
+  }
+
+  private updateCircles(container, points: Example2D[],
+      getLabel = (point: Example2D) => point.label) {
     let xDomain = this.xScale.domain();
     let yDomain = this.yScale.domain();
     points = points.filter(p => {
@@ -167,9 +339,14 @@ export class HeatMap {
         cx: (d: Example2D) => this.xScale(d.x),
         cy: (d: Example2D) => this.yScale(d.y),
       })
-      .style("fill", d => this.color(d.label));
+      .style("fill", (d: Example2D) => this.numClasses > 0 ?
+          CLASS_COLORS[getLabel(d)] : this.color(getLabel(d)));
 
     selection.exit().remove();
+
+    if (this.editHandlers != null) {
+      this.bindPointEditing(selection);
+    }
   }
 }  
 
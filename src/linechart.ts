@@ -6,19 +6,29 @@ type DataPoint = {
 
 export class AppendingLineChart {
   private numLines: number;
+  private numSecondaryLines: number;
   private data: DataPoint[] = [];
   private svg;
   private xScale;
   private yScale;
+  private secondaryYScale;
   private paths;
   private lineColors: string[];
+  private marker;
+  private markerX: number = null;
 
   private minY = Number.MAX_VALUE;
   private maxY = Number.MIN_VALUE;
+  private maxSecondaryY = Number.MIN_VALUE;
 
-  constructor(container, lineColors: string[]) {
+  /**
+   * @param numSecondaryLines Las últimas líneas que se dibujan punteadas
+   *     con su propia escala vertical (p. ej. la tasa de aprendizaje).
+   */
+  constructor(container, lineColors: string[], numSecondaryLines = 0) {
     this.lineColors = lineColors;
     this.numLines = lineColors.length;
+    this.numSecondaryLines = numSecondaryLines;
     let node = container.node() as HTMLElement;
     let totalWidth = node.offsetWidth;
     let totalHeight = node.offsetHeight;
@@ -34,6 +44,10 @@ export class AppendingLineChart {
       .domain([0, 0])
       .range([height, 0]);
 
+    this.secondaryYScale = d3.scale.linear()
+      .domain([0, 0])
+      .range([height, 0]);
+
     this.svg = container.append("svg")
       .attr("width", width + margin.left + margin.right)
       .attr("height", height + margin.top + margin.bottom)
@@ -47,41 +61,88 @@ export class AppendingLineChart {
         .style({
           "fill": "none",
           "stroke": lineColors[i],
-          "stroke-width": "1.5px"
+          "stroke-width": "1.5px",
+          "stroke-dasharray": this.isSecondary(i) ? "3,2" : null
         });
     }
+    this.marker = this.svg.append("line")
+      .attr("class", "marker")
+      .attr({y1: 0, y2: height})
+      .style({
+        "stroke": "#777",
+        "stroke-width": "1px",
+        "stroke-dasharray": "1,2",
+        "display": "none"
+      });
   }
 
   reset() {
     this.data = [];
+    this.markerX = null;
     this.redraw();
     this.minY = Number.MAX_VALUE;
     this.maxY = Number.MIN_VALUE;
+    this.maxSecondaryY = Number.MIN_VALUE;
   }
 
   addDataPoint(dataPoint: number[]) {
+    this.appendDataPoint(dataPoint);
+    this.redraw();
+  }
+
+  /** Agrega varios puntos y redibuja el gráfico una sola vez. */
+  addDataPoints(dataPoints: number[][]) {
+    dataPoints.forEach(dataPoint => this.appendDataPoint(dataPoint));
+    this.redraw();
+  }
+
+  /**
+   * Marca el punto x con una línea vertical, p. ej. la mejor época. Con
+   * null quita la marca.
+   */
+  setMarker(x: number) {
+    this.markerX = x;
+    this.redraw();
+  }
+
+  private appendDataPoint(dataPoint: number[]) {
     if (dataPoint.length !== this.numLines) {
       throw Error("Length of dataPoint must equal number of lines");
     }
-    dataPoint.forEach(y => {
-      this.minY = Math.min(this.minY, y);
-      this.maxY = Math.max(this.maxY, y);
+    dataPoint.forEach((y, i) => {
+      if (this.isSecondary(i)) {
+        this.maxSecondaryY = Math.max(this.maxSecondaryY, y);
+      } else {
+        this.minY = Math.min(this.minY, y);
+        this.maxY = Math.max(this.maxY, y);
+      }
     });
 
     this.data.push({x: this.data.length + 1, y: dataPoint});
-    this.redraw();
+  }
+
+  private isSecondary(lineIndex: number): boolean {
+    return lineIndex >= this.numLines - this.numSecondaryLines;
   }
 
   private redraw() {
     this.xScale.domain([1, this.data.length]);
     this.yScale.domain([this.minY, this.maxY]);
+    this.secondaryYScale.domain([0, this.maxSecondaryY]);
     let getPathMap = (lineIndex: number) => {
+      let yScale = this.isSecondary(lineIndex) ?
+          this.secondaryYScale : this.yScale;
       return d3.svg.line<{x: number, y:number}>()
       .x(d => this.xScale(d.x))
-      .y(d => this.yScale(d.y[lineIndex]));
+      .y(d => yScale(d.y[lineIndex]));
     };
     for (let i = 0; i < this.numLines; i++) {
       this.paths[i].datum(this.data).attr("d", getPathMap(i));
     }
+    let markerX = this.xScale(this.markerX);
+    this.marker
+      .attr({x1: markerX, x2: markerX})
+      .style("display", this.markerX != null && this.data.length > 1 ?
+          null : "none");
   }
 }
\ No newline at end of file
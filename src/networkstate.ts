@@ -0,0 +1,310 @@
+import * as nn from "./nn";
+
+/**
+ * La estructura de una red en un formato que se puede clonar o convertir a
+ * JSON. Las funciones se identifican por el nombre de su propiedad estática
+ * en nn, p. ej. "TANH" para nn.Activations.TANH.
+ */
+export interface NetworkSpec {
+  shape: number[];
+  inputIds: string[];
+  /** Activación de cada capa, empezando por la primera capa oculta. */
+  activations: string[];
+  /** Regularización de los enlaces, o null si no hay. */
+  regularization: string;
+  batchNorm: boolean;
+  /**
+   * Id del nodo de origen y de destino de cada enlace, en el orden de los
+   * pesos de NetworkParams. Es null en los modelos de la versión 1, cuyas
+   * capas están totalmente conectadas solo con la siguiente.
+   */
+  links: [string, string][];
+}
+
+/**
+ * Los parámetros aprendidos de una red, en el orden de nn.forEachNode sin
+ * las entradas y, dentro de cada nodo, en el orden de sus enlaces de entrada.
+ */
+export interface NetworkParams {
+  biases: number[];
+  weights: number[];
+  isDead: boolean[];
+  isFrozen: boolean[];
+  /** Si cada nodo tiene congelados su sesgo y su normalización por lotes. */
+  isNodeFrozen: boolean[];
+  /**
+   * Gamma, beta, media móvil y varianza móvil de cada nodo con
+   * normalización por lotes, cuatro valores por nodo.
+   */
+  batchNorms: number[];
+}
+
+/**
+ * Devuelve el nombre de la propiedad estática de registry (p. ej.
+ * nn.Activations) cuyo valor es value, o null si no hay ninguna.
+ */
+export function getRegistryKey(registry: any, value: any): string {
+  for (let key in registry) {
+    if (registry[key] === value) {
+      return key;
+    }
+  }
+  return null;
+}
+
+/** Devuelve la estructura de la red. */
+export function getNetworkSpec(network: nn.Node[][]): NetworkSpec {
+  // Todos los enlaces comparten la regularización con la que se creó la red.
+  let regularization: nn.RegularizationFunction = null;
+  nn.forEachNode(network, true, node => {
+    if (node.inputLinks.length > 0) {
+      regularization = node.inputLinks[0].regularization;
+    }
+  });
+  return {
+    shape: network.map(layer => layer.length),
+    inputIds: network[0].map(node => node.id),
+    activations: network.slice(1).map(layer =>
+        getRegistryKey(nn.Activations, layer[0].activation)),
+    regularization:
+        getRegistryKey(nn.RegularizationFunction, regularization),
+    batchNorm: network.length > 2 && network[1][0].batchNorm != null,
+    links: getLinks(network)
+  };
+}
+
+function getLinks(network: nn.Node[][]): [string, string][] {
+  let links: [string, string][] = [];
+  nn.forEachNode(network, true, node => {
+    node.inputLinks.forEach(link => {
+      links.push([link.source.id, link.dest.id]);
+    });
+  });
+  return links;
+}
+
+/** Copia los parámetros aprendidos de la red. */
+export function getParams(network: nn.Node[][]): NetworkParams {
+  let params: NetworkParams =
+      {biases: [], weights: [], isDead: [], isFrozen: [], isNodeFrozen: [],
+          batchNorms: []};
+  nn.forEachNode(network, true, node => {
+    params.biases.push(node.bias);
+    params.isNodeFrozen.push(node.isFrozen);
+    if (node.batchNorm != null) {
+      let batchNorm = node.batchNorm;
+      params.batchNorms.push(batchNorm.gamma, batchNorm.beta,
+          batchNorm.runningMean, batchNorm.runningVariance);
+    }
+    node.inputLinks.forEach(link => {
+      params.weights.push(link.weight);
+      params.isDead.push(link.isDead);
+      params.isFrozen.push(link.isFrozen);
+    });
+  });
+  return params;
+}
+
+/**
+ * Asigna a la red los parámetros de getParams. La red debe tener la misma
+ * estructura que la red de la que se copiaron.
+ */
+export function setParams(network: nn.Node[][], params: NetworkParams): void {
+  let nodeIndex = 0;
+  let linkIndex = 0;
+  let batchNormIndex = 0;
+  nn.forEachNode(network, true, node => {
+    node.isFrozen = params.isNodeFrozen[nodeIndex];
+    node.bias = params.biases[nodeIndex++];
+    if (node.batchNorm != null) {
+      let batchNorm = node.batchNorm;
+      batchNorm.gamma = params.batchNorms[batchNormIndex++];
+      batchNorm.beta = params.batchNorms[batchNormIndex++];
+      batchNorm.runningMean = params.batchNorms[batchNormIndex++];
+      batchNorm.runningVariance = params.batchNorms[batchNormIndex++];
+    }
+    node.inputLinks.forEach(link => {
+      link.weight = params.weights[linkIndex];
+      link.isDead = params.isDead[linkIndex];
+      link.isFrozen = params.isFrozen[linkIndex];
+      linkIndex++;
+    });
+  });
+}
+
+/** Construye una red con la estructura y los parámetros dados. */
+export function buildFromSpec(spec: NetworkSpec,
+    params: NetworkParams): nn.Node[][] {
+  let activations = spec.activations.map(key => nn.Activations[key]);
+  let regularization = spec.regularization != null ?
+      nn.RegularizationFunction[spec.regularization] : null;
+  let network = nn.buildNetwork(spec.shape, activations.slice(0, -1),
+      activations[activations.length - 1], regularization, spec.inputIds);
+  nn.setBatchNorm(network, spec.batchNorm);
+  if (spec.links != null) {
+    setLinks(network, spec.links, regularization);
+  }
+  setParams(network, params);
+  return network;
+}
+
+/** Reemplaza todos los enlaces de la red por los dados. */
+function setLinks(network: nn.Node[][], links: [string, string][],
+    regularization: nn.RegularizationFunction): void {
+  let nodes: {[id: string]: nn.Node} = {};
+  nn.forEachNode(network, false, node => {
+    nodes[node.id] = node;
+    node.inputLinks.slice().forEach(nn.removeLink);
+  });
+  links.forEach(([sourceId, destId]) => {
+    nn.addLink(network, nodes[sourceId], nodes[destId], regularization);
+  });
+}
+
+/**
+ * Versión del formato de los modelos guardados por saveModel. La versión 2
+ * agregó la lista de enlaces a NetworkSpec y la 3, los parámetros
+ * congelados.
+ */
+export const MODEL_VERSION = 3;
+
+/** Una red entrenada tal como se guarda en un archivo JSON. */
+export interface SavedModel {
+  version: number;
+  spec: NetworkSpec;
+  params: NetworkParams;
+}
+
+/** Devuelve la red en el formato de los modelos guardados. */
+export function saveModel(network: nn.Node[][]): SavedModel {
+  return {
+    version: MODEL_VERSION,
+    spec: getNetworkSpec(network),
+    params: getParams(network)
+  };
+}
+
+/**
+ * Lee un modelo guardado y comprueba que sea coherente: que la versión sea
+ * conocida, que las funciones existan en nn y que la cantidad de sesgos,
+ * pesos y parámetros de normalización corresponda a su estructura.
+ *
+ * @throws Error con la descripción del primer problema encontrado.
+ */
+export function parseModel(text: string): SavedModel {
+  let model: SavedModel;
+  try {
+    model = JSON.parse(text);
+  } catch (e) {
+    throw new Error("The file is not valid JSON");
+  }
+  checkModel(model != null && typeof model === "object",
+      "The file does not contain a model");
+  checkModel(model.version >= 1 && model.version <= MODEL_VERSION,
+      `Unsupported model version ${model.version}, expected ${MODEL_VERSION}`);
+  let spec = model.spec;
+  let params = model.params;
+  checkModel(spec != null && params != null,
+      "The model must have a spec and params");
+  let shape = spec.shape;
+  checkModel(isArrayOf(shape, x => x === Math.floor(x) && x > 0) &&
+      shape.length >= 2,
+      "The shape must list the size of at least an input and an output layer");
+  checkModel(isArrayOf(spec.inputIds, x => typeof x === "string") &&
+      spec.inputIds.length === shape[0],
+      `The model must have ${shape[0]} input ids, one per input node`);
+  checkModel(isArrayOf(spec.activations,
+      key => typeof nn.Activations[key] === "object") &&
+      spec.activations.length === shape.length - 1,
+      `The model must have ${shape.length - 1} known activations, one per ` +
+      "layer after the input");
+  checkModel(spec.regularization == null ||
+      typeof nn.RegularizationFunction[spec.regularization] === "object",
+      `Unknown regularization "${spec.regularization}"`);
+  checkModel(typeof spec.batchNorm === "boolean",
+      "batchNorm must be true or false");
+
+  let numNodes = 0;
+  let numLinks = 0;
+  for (let i = 1; i < shape.length; i++) {
+    numNodes += shape[i];
+    numLinks += shape[i - 1] * shape[i];
+  }
+  if (model.version >= 2) {
+    checkLinks(spec);
+    numLinks = spec.links.length;
+  } else {
+    spec.links = null;
+  }
+  let numBatchNorms = spec.batchNorm ? numNodes - shape[shape.length - 1] : 0;
+  let isNumber = (x: any) => typeof x === "number";
+  checkLength(params.biases, isNumber, numNodes, "biases");
+  checkLength(params.weights, isNumber, numLinks, "weights");
+  let isBoolean = (x: any) => typeof x === "boolean";
+  checkLength(params.isDead, isBoolean, numLinks, "isDead flags");
+  if (model.version >= 3) {
+    checkLength(params.isFrozen, isBoolean, numLinks, "isFrozen flags");
+    checkLength(params.isNodeFrozen, isBoolean, numNodes,
+        "isNodeFrozen flags");
+  } else {
+    params.isFrozen = params.isDead.map(() => false);
+    params.isNodeFrozen = params.biases.map(() => false);
+  }
+  checkLength(params.batchNorms, isNumber, 4 * numBatchNorms,
+      "batch normalization values");
+  return model;
+}
+
+/**
+ * Comprueba que cada enlace una dos nodos de la red, de una capa a otra
+ * posterior, sin repetirse y en el orden de sus nodos de destino y de
+ * origen, que es el orden de los pesos.
+ */
+function checkLinks(spec: NetworkSpec): void {
+  // Los nodos que no son de entrada se numeran desde 1, como en
+  // nn.buildNetwork.
+  let ids = spec.inputIds.slice();
+  let layerOf: number[] = spec.inputIds.map(() => 0);
+  let nextId = 1;
+  for (let layerIdx = 1; layerIdx < spec.shape.length; layerIdx++) {
+    for (let i = 0; i < spec.shape[layerIdx]; i++) {
+      ids.push(String(nextId++));
+      layerOf.push(layerIdx);
+    }
+  }
+  checkModel(isArrayOf(spec.links, link => isArrayOf(link,
+      id => typeof id === "string") && link.length === 2),
+      "The model links must be pairs of node ids");
+  let lastDest = -1;
+  let lastSource = -1;
+  spec.links.forEach(([sourceId, destId]) => {
+    let source = ids.indexOf(sourceId);
+    let dest = ids.indexOf(destId);
+    checkModel(source !== -1 && dest !== -1,
+        `The link ${sourceId}-${destId} refers to an unknown node`);
+    checkModel(layerOf[source] < layerOf[dest],
+        `The link ${sourceId}-${destId} must go to a later layer`);
+    checkModel(dest > lastDest || (dest === lastDest && source > lastSource),
+        `The link ${sourceId}-${destId} is repeated or out of order`);
+    lastDest = dest;
+    lastSource = source;
+  });
+}
+
+function checkModel(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+function isArrayOf(value: any, isValid: (item: any) => boolean): boolean {
+  return value instanceof Array && value.every(isValid);
+}
+
+function checkLength(values: any[], isValid: (item: any) => boolean,
+    expected: number, name: string): void {
+  checkModel(isArrayOf(values, isValid),
+      `The model ${name} must be an array`);
+  checkModel(values.length === expected, `The model has ${values.length} ` +
+      `${name} but its shape needs ${expected}`);
+}
@@ -1,3 +1,5 @@
+import {RandomFunction} from "./random";
+
 /**
 * Un nodo en una red neuronal. Cada nodo tiene un estado
 * (entrada total, salida y sus respectivas derivadas) que cambia
@@ -11,6 +13,11 @@ export class Node {
   /** Lista de enlaces de salida. */
   outputs: Link[] = [];
   totalInput: number;
+  /**
+  * Entrada de la función de activación: la entrada total, o su versión
+  * normalizada si el nodo usa normalización por lotes.
+  */
+  activationInput: number;
   output: number;
   /** Error derivado con respecto a la salida de este nodo. */
   outputDer = 0;
@@ -25,17 +32,42 @@ export class Node {
   * desde la última actualización.
   */
   numAccumulatedDers = 0;
+  /** Estado del optimizador para el sesgo de este nodo. */
+  optimizerState = new OptimizerState();
+  /** Probabilidad de descartar este nodo en cada paso de entrenamiento. */
+  dropoutRate = 0;
+  /**
+  * Factor aplicado a la salida en la última propagación: 0 si el nodo se
+  * descartó, 1 / (1 - dropoutRate) si se conservó y 1 en inferencia.
+  */
+  dropoutScale = 1;
+  /** Normalización por lotes de la entrada total. Nulo si no se usa. */
+  batchNorm: BatchNorm = null;
+  /**
+  * Si es true, updateWeights no cambia el sesgo ni la gamma y la beta de
+  * este nodo.
+  */
+  isFrozen = false;
+  /**
+  * Valores de la última propagación por lotes, uno por ejemplo del lote:
+  * entradas de la activación, salidas, factores de dropout y derivadas.
+  */
+  batchActivationInputs: number[] = [];
+  batchOutputs: number[] = [];
+  batchDropoutScales: number[] = [];
+  batchOutputDers: number[] = [];
+  batchInputDers: number[] = [];
   /** Función de activación que toma la entrada total y devuelve la salida del nodo */
   activation: ActivationFunction;
 
   /**
   * Crea un nuevo nodo con el ID y la función de activación proporcionados.
   */
-  constructor(id: string, activation: ActivationFunction, initZero?: boolean) {
+  constructor(id: string, activation: ActivationFunction, bias?: number) {
     this.id = id;
     this.activation = activation;
-    if (initZero) {
-      this.bias = 0;
+    if (bias != null) {
+      this.bias = bias;
     }
   }
 
@@ -47,7 +79,9 @@ export class Node {
       let link = this.inputLinks[j];
       this.totalInput += link.weight * link.source.output;
     }
-    this.output = this.activation.output(this.totalInput);
+    this.activationInput = this.batchNorm != null ?
+        this.batchNorm.forward(this.totalInput) : this.totalInput;
+    this.output = this.activation.output(this.activationInput);
     return this.output;
   }
 }
@@ -79,6 +113,57 @@ export class Errors {
                0.5 * Math.pow(output - target, 2),
     der: (output: number, target: number) => output - target
   };
+  /**
+   * Entropía cruzada binaria (log-loss). La salida y el objetivo están en
+   * [-1, 1] y se reescalan a probabilidades en [0, 1], por lo que una salida
+   * tanh(z) equivale a una sigmoide sigmoid(2z).
+   */
+  public static CROSS_ENTROPY: ErrorFunction = {
+    error: (output: number, target: number) => {
+      let p = clampProbability((output + 1) / 2);
+      let y = (target + 1) / 2;
+      return -(y * Math.log(p) + (1 - y) * Math.log(1 - p));
+    },
+    der: (output: number, target: number) => {
+      let p = clampProbability((output + 1) / 2);
+      let y = (target + 1) / 2;
+      return (p - y) / (2 * p * (1 - p));
+    }
+  };
+  /** Pérdida hinge para etiquetas +1/-1. */
+  public static HINGE: ErrorFunction = {
+    error: (output: number, target: number) =>
+               Math.max(0, 1 - target * output),
+    der: (output: number, target: number) =>
+               target * output < 1 ? -target : 0
+  };
+  /**
+   * Pérdida de Huber con delta = 1: cuadrática cerca del objetivo y lineal
+   * lejos de él, por lo que es menos sensible a valores atípicos.
+   */
+  public static HUBER: ErrorFunction = {
+    error: (output: number, target: number) => {
+      let diff = Math.abs(output - target);
+      return diff <= 1 ? 0.5 * diff * diff : diff - 0.5;
+    },
+    der: (output: number, target: number) =>
+               Math.max(-1, Math.min(1, output - target))
+  };
+  /**
+   * Entropía cruzada para una capa de salida softmax. La derivada se expresa
+   * directamente con respecto al logit del nodo (p - y), por lo que solo es
+   * válida junto con Activations.SOFTMAX.
+   */
+  public static SOFTMAX_CROSS_ENTROPY: ErrorFunction = {
+    error: (output: number, target: number) =>
+               -target * Math.log(Math.max(output, 1e-15)),
+    der: (output: number, target: number) => output - target
+  };
+}
+
+/** Evita log(0) y divisiones por cero en las pérdidas probabilísticas. */
+function clampProbability(p: number): number {
+  return Math.max(1e-7, Math.min(1 - 1e-7, p));
 }
 
 /** Polyfill para TANH */
@@ -93,6 +178,11 @@ export class Errors {
   }
 };
 
+export const SELU_SCALE = 1.0507009873554805;
+export const SELU_ALPHA = 1.6732632423543772;
+export const GELU_SCALE = Math.sqrt(2 / Math.PI);
+export const GELU_CUBIC = 0.044715;
+
 /** Funciones de activación integradas */
 export class Activations {
   public static TANH: ActivationFunction = {
@@ -117,6 +207,395 @@ export class Activations {
     output: x => x,
     der: x => 1
   };
+  /** Pendiente de LEAKY_RELU para entradas negativas. */
+  public static leakyReluSlope = 0.01;
+  public static LEAKY_RELU: ActivationFunction = {
+    output: x => x > 0 ? x : Activations.leakyReluSlope * x,
+    der: x => x > 0 ? 1 : Activations.leakyReluSlope
+  };
+  public static ELU: ActivationFunction = {
+    output: x => x > 0 ? x : Math.exp(x) - 1,
+    der: x => x > 0 ? 1 : Math.exp(x)
+  };
+  /** ELU escalada con las constantes auto-normalizantes de Klambauer et al. */
+  public static SELU: ActivationFunction = {
+    output: x => SELU_SCALE * (x > 0 ? x : SELU_ALPHA * (Math.exp(x) - 1)),
+    der: x => SELU_SCALE * (x > 0 ? 1 : SELU_ALPHA * Math.exp(x))
+  };
+  public static SOFTPLUS: ActivationFunction = {
+    output: x => x > 30 ? x : Math.log(1 + Math.exp(x)),
+    der: x => Activations.SIGMOID.output(x)
+  };
+  /** Swish o SiLU: x * sigmoid(x). */
+  public static SWISH: ActivationFunction = {
+    output: x => x * Activations.SIGMOID.output(x),
+    der: x => {
+      let sigmoid = Activations.SIGMOID.output(x);
+      return sigmoid + x * sigmoid * (1 - sigmoid);
+    }
+  };
+  /** GELU con la aproximación de tanh de Hendrycks y Gimpel. */
+  public static GELU: ActivationFunction = {
+    output: x => {
+      let inner = GELU_SCALE * (x + GELU_CUBIC * x * x * x);
+      return 0.5 * x * (1 + Activations.TANH.output(inner));
+    },
+    der: x => {
+      let inner = GELU_SCALE * (x + GELU_CUBIC * x * x * x);
+      let tanh = Activations.TANH.output(inner);
+      let innerDer = GELU_SCALE * (1 + 3 * GELU_CUBIC * x * x);
+      return 0.5 * (1 + tanh) + 0.5 * x * (1 - tanh * tanh) * innerDer;
+    }
+  };
+  public static SINE: ActivationFunction = {
+    output: x => Math.sin(x),
+    der: x => Math.cos(x)
+  };
+  /** Gaussiana exp(-x^2), que responde solo cerca de su centro como una RBF. */
+  public static GAUSSIAN: ActivationFunction = {
+    output: x => Math.exp(-x * x),
+    der: x => -2 * x * Math.exp(-x * x)
+  };
+  /**
+   * Marca una capa de salida softmax. Cada nodo calcula su logit y
+   * forwardProp normaliza luego la capa completa en probabilidades.
+   */
+  public static SOFTMAX: ActivationFunction = {
+    output: x => x,
+    der: x => 1
+  };
+}
+
+/** Devuelve true si la capa dada normaliza sus salidas con softmax. */
+function isSoftmaxLayer(layer: Node[]): boolean {
+  return layer.length > 0 && layer[0].activation === Activations.SOFTMAX;
+}
+
+/**
+ * Reemplaza cada valor por su probabilidad softmax. Se resta el valor
+ * máximo para evitar desbordamientos en Math.exp.
+ */
+function softmax(values: number[]): void {
+  let max = -Infinity;
+  for (let i = 0; i < values.length; i++) {
+    max = Math.max(max, values[i]);
+  }
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    values[i] = Math.exp(values[i] - max);
+    sum += values[i];
+  }
+  for (let i = 0; i < values.length; i++) {
+    values[i] /= sum;
+  }
+}
+
+/** Reemplaza la salida de cada nodo de la capa por su probabilidad softmax. */
+function applySoftmax(layer: Node[]): void {
+  let outputs = layer.map(node => node.output);
+  softmax(outputs);
+  layer.forEach((node, i) => node.output = outputs[i]);
+}
+
+/** Aplica softmax a las salidas de cada ejemplo del último lote. */
+function applySoftmaxBatch(layer: Node[]): void {
+  let batchSize = layer[0].batchOutputs.length;
+  for (let b = 0; b < batchSize; b++) {
+    let outputs = layer.map(node => node.batchOutputs[b]);
+    softmax(outputs);
+    layer.forEach((node, i) => node.batchOutputs[b] = outputs[i]);
+  }
+  layer.forEach(node => node.output = node.batchOutputs[batchSize - 1]);
+}
+
+/**
+ * Estado que un optimizador guarda para un único parámetro (un peso o un
+ * sesgo) entre actualizaciones.
+ */
+export class OptimizerState {
+  /** Velocidad acumulada (momentum y Nesterov). */
+  velocity = 0;
+  /** Media móvil del gradiente (primer momento de Adam). */
+  firstMoment = 0;
+  /** Media móvil del gradiente al cuadrado (RMSProp y Adam). */
+  secondMoment = 0;
+  /** Número de actualizaciones aplicadas, para la corrección de sesgo. */
+  numUpdates = 0;
+}
+
+/**
+ * Regla de actualización de un parámetro. Recibe el gradiente medio desde la
+ * última actualización y devuelve el cambio a sumar al parámetro.
+ */
+export interface Optimizer {
+  update: (gradient: number, state: OptimizerState,
+      learningRate: number) => number;
+}
+
+const MOMENTUM = 0.9;
+const RMS_DECAY = 0.9;
+const ADAM_BETA1 = 0.9;
+const ADAM_BETA2 = 0.999;
+const EPSILON = 1e-8;
+
+/** Optimizadores integrados */
+export class Optimizers {
+  public static SGD: Optimizer = {
+    update: (gradient, state, learningRate) => -learningRate * gradient
+  };
+  public static MOMENTUM: Optimizer = {
+    update: (gradient, state, learningRate) => {
+      state.velocity = MOMENTUM * state.velocity - learningRate * gradient;
+      return state.velocity;
+    }
+  };
+  public static NESTEROV: Optimizer = {
+    update: (gradient, state, learningRate) => {
+      let prevVelocity = state.velocity;
+      state.velocity = MOMENTUM * state.velocity - learningRate * gradient;
+      return -MOMENTUM * prevVelocity + (1 + MOMENTUM) * state.velocity;
+    }
+  };
+  public static RMSPROP: Optimizer = {
+    update: (gradient, state, learningRate) => {
+      state.secondMoment = RMS_DECAY * state.secondMoment +
+          (1 - RMS_DECAY) * gradient * gradient;
+      return -learningRate * gradient /
+          (Math.sqrt(state.secondMoment) + EPSILON);
+    }
+  };
+  public static ADAM: Optimizer = {
+    update: (gradient, state, learningRate) => {
+      state.numUpdates++;
+      state.firstMoment = ADAM_BETA1 * state.firstMoment +
+          (1 - ADAM_BETA1) * gradient;
+      state.secondMoment = ADAM_BETA2 * state.secondMoment +
+          (1 - ADAM_BETA2) * gradient * gradient;
+      let firstMoment = state.firstMoment /
+          (1 - Math.pow(ADAM_BETA1, state.numUpdates));
+      let secondMoment = state.secondMoment /
+          (1 - Math.pow(ADAM_BETA2, state.numUpdates));
+      return -learningRate * firstMoment / (Math.sqrt(secondMoment) + EPSILON);
+    }
+  };
+}
+
+/**
+ * Calcula la tasa de aprendizaje efectiva de una época a partir de la tasa
+ * base. El período (en épocas) y el factor de decaimiento parametrizan cada
+ * programa.
+ */
+export interface LearningRateSchedule {
+  rate: (baseRate: number, epoch: number, period: number,
+      decay: number) => number;
+}
+
+/** Programas de tasa de aprendizaje integrados */
+export class LearningRateSchedules {
+  public static CONSTANT: LearningRateSchedule = {
+    rate: (baseRate, epoch, period, decay) => baseRate
+  };
+  /** Multiplica la tasa por el factor de decaimiento cada período. */
+  public static STEP: LearningRateSchedule = {
+    rate: (baseRate, epoch, period, decay) =>
+        baseRate * Math.pow(decay, Math.floor(epoch / period))
+  };
+  /** Igual que STEP pero de forma continua. */
+  public static EXPONENTIAL: LearningRateSchedule = {
+    rate: (baseRate, epoch, period, decay) =>
+        baseRate * Math.pow(decay, epoch / period)
+  };
+  /** Recocido coseno hasta 0 que se reinicia al comienzo de cada período. */
+  public static COSINE: LearningRateSchedule = {
+    rate: (baseRate, epoch, period, decay) =>
+        0.5 * baseRate * (1 + Math.cos(Math.PI * (epoch % period) / period))
+  };
+  /** Crece linealmente durante el primer período y luego es constante. */
+  public static WARMUP: LearningRateSchedule = {
+    rate: (baseRate, epoch, period, decay) =>
+        baseRate * Math.min(1, (epoch + 1) / period)
+  };
+}
+
+/**
+ * Esquema de inicialización. Da el peso inicial de un enlace a partir del
+ * fan-in (nodos de la capa anterior) y fan-out (nodos de la capa del
+ * destino), tomando los valores aleatorios de random, y el sesgo inicial de
+ * cada nodo.
+ */
+export interface Initializer {
+  weight: (fanIn: number, fanOut: number, random: RandomFunction) => number;
+  bias: number;
+}
+
+/** Muestra de una normal estándar con el método polar de Marsaglia. */
+function randomNormal(random: RandomFunction): number {
+  let v1: number, v2: number, s: number;
+  do {
+    v1 = 2 * random() - 1;
+    v2 = 2 * random() - 1;
+    s = v1 * v1 + v2 * v2;
+  } while (s > 1 || s === 0);
+  return Math.sqrt(-2 * Math.log(s) / s) * v1;
+}
+
+/** Esquemas de inicialización integrados */
+export class Initializers {
+  /** Uniforme en [-0.5, 0.5). */
+  public static UNIFORM: Initializer = {
+    weight: (fanIn, fanOut, random) => random() - 0.5,
+    bias: 0.1
+  };
+  public static ZERO: Initializer = {
+    weight: (fanIn, fanOut) => 0,
+    bias: 0
+  };
+  /** Glorot uniforme: conserva la varianza hacia adelante y hacia atrás. */
+  public static XAVIER: Initializer = {
+    weight: (fanIn, fanOut, random) =>
+        (2 * random() - 1) * Math.sqrt(6 / (fanIn + fanOut)),
+    bias: 0
+  };
+  /** Normal con varianza 2 / fan-in, pensada para ReLU. */
+  public static HE: Initializer = {
+    weight: (fanIn, fanOut, random) =>
+        randomNormal(random) * Math.sqrt(2 / fanIn),
+    bias: 0
+  };
+  /** Normal con varianza 1 / fan-in, pensada para tanh y SELU. */
+  public static LECUN: Initializer = {
+    weight: (fanIn, fanOut, random) =>
+        randomNormal(random) * Math.sqrt(1 / fanIn),
+    bias: 0
+  };
+}
+
+const BATCH_NORM_MOMENTUM = 0.9;
+
+/**
+ * Normalización por lotes de la entrada total de un nodo oculto. Durante el
+ * entrenamiento normaliza con la media y la varianza del lote; en inferencia
+ * usa sus medias móviles. Gamma y beta son parámetros aprendidos.
+ */
+export class BatchNorm {
+  gamma = 1;
+  beta = 0;
+  runningMean = 0;
+  runningVariance = 1;
+  /** Derivadas acumuladas de gamma y beta desde la última actualización. */
+  accGammaDer = 0;
+  accBetaDer = 0;
+  numAccumulatedDers = 0;
+  gammaOptimizerState = new OptimizerState();
+  betaOptimizerState = new OptimizerState();
+  /** Entrada normalizada y desviación de la última propagación. */
+  normalized = 0;
+  std = 1;
+  batchNormalized: number[] = [];
+
+  /**
+   * Devuelve el factor y el desplazamiento con los que forward transforma
+   * la entrada total: forward(t) = scale * t + shift.
+   */
+  getInferenceAffine(): {scale: number, shift: number} {
+    let scale = this.gamma / Math.sqrt(this.runningVariance + EPSILON);
+    return {scale, shift: this.beta - scale * this.runningMean};
+  }
+
+  /** Normaliza una única entrada con las estadísticas móviles. */
+  forward(totalInput: number): number {
+    this.std = Math.sqrt(this.runningVariance + EPSILON);
+    this.normalized = (totalInput - this.runningMean) / this.std;
+    return this.gamma * this.normalized + this.beta;
+  }
+
+  /**
+   * Normaliza las entradas de un lote. En entrenamiento usa la media y la
+   * varianza del lote y actualiza las estadísticas móviles.
+   */
+  forwardBatch(totalInputs: number[], isTraining: boolean): number[] {
+    if (!isTraining) {
+      let outputs = totalInputs.map(totalInput => this.forward(totalInput));
+      this.batchNormalized = totalInputs.map(totalInput =>
+          (totalInput - this.runningMean) / this.std);
+      return outputs;
+    }
+    let batchSize = totalInputs.length;
+    let mean = 0;
+    totalInputs.forEach(totalInput => mean += totalInput);
+    mean /= batchSize;
+    let variance = 0;
+    totalInputs.forEach(totalInput => {
+      variance += (totalInput - mean) * (totalInput - mean);
+    });
+    variance /= batchSize;
+    this.runningMean = BATCH_NORM_MOMENTUM * this.runningMean +
+        (1 - BATCH_NORM_MOMENTUM) * mean;
+    this.runningVariance = BATCH_NORM_MOMENTUM * this.runningVariance +
+        (1 - BATCH_NORM_MOMENTUM) * variance;
+    this.std = Math.sqrt(variance + EPSILON);
+    this.batchNormalized =
+        totalInputs.map(totalInput => (totalInput - mean) / this.std);
+    this.normalized = this.batchNormalized[batchSize - 1];
+    return this.batchNormalized.map(x => this.gamma * x + this.beta);
+  }
+
+  /**
+   * Propaga hacia atrás la derivada de una única salida tratando las
+   * estadísticas como constantes. Devuelve la derivada de la entrada total.
+   */
+  backward(outputDer: number): number {
+    this.accGammaDer += outputDer * this.normalized;
+    this.accBetaDer += outputDer;
+    this.numAccumulatedDers++;
+    return outputDer * this.gamma / this.std;
+  }
+
+  /**
+   * Propaga hacia atrás las derivadas de un lote de entrenamiento, teniendo
+   * en cuenta que la media y la varianza dependen de todo el lote.
+   */
+  backwardBatch(outputDers: number[]): number[] {
+    let batchSize = outputDers.length;
+    let sumDer = 0;
+    let sumDerNormalized = 0;
+    for (let b = 0; b < batchSize; b++) {
+      sumDer += outputDers[b];
+      sumDerNormalized += outputDers[b] * this.batchNormalized[b];
+    }
+    this.accGammaDer += sumDerNormalized;
+    this.accBetaDer += sumDer;
+    this.numAccumulatedDers += batchSize;
+    let scale = this.gamma / (batchSize * this.std);
+    return outputDers.map((outputDer, b) => scale * (batchSize * outputDer -
+        sumDer - this.batchNormalized[b] * sumDerNormalized));
+  }
+
+  /**
+   * Actualiza gamma y beta con las derivadas acumuladas.
+   *
+   * @param clip Transforma cada gradiente medio antes de aplicarlo.
+   */
+  updateParams(learningRate: number, optimizer: Optimizer,
+      clip: (gradient: number) => number): void {
+    if (this.numAccumulatedDers === 0) {
+      return;
+    }
+    this.gamma += optimizer.update(
+        clip(this.accGammaDer / this.numAccumulatedDers),
+        this.gammaOptimizerState, learningRate);
+    this.beta += optimizer.update(
+        clip(this.accBetaDer / this.numAccumulatedDers),
+        this.betaOptimizerState, learningRate);
+    this.discardDers();
+  }
+
+  /** Descarta las derivadas acumuladas sin actualizar gamma ni beta. */
+  discardDers(): void {
+    this.accGammaDer = 0;
+    this.accBetaDer = 0;
+    this.numAccumulatedDers = 0;
+  }
 }
 
 /** Funciones de regularización incorporadas */
@@ -129,6 +608,38 @@ export class RegularizationFunction {
     output: w => 0.5 * w * w,
     der: w => w
   };
+  /**
+   * Elastic net: la suma de L1 y L2. Con WeightConstraints, updateWeights
+   * aplica cada parte con su propia tasa.
+   */
+  public static ELASTIC_NET: RegularizationFunction = {
+    output: w => RegularizationFunction.L1.output(w) +
+        RegularizationFunction.L2.output(w),
+    der: w => RegularizationFunction.L1.der(w) +
+        RegularizationFunction.L2.der(w)
+  };
+}
+
+/** Penalizaciones y restricciones de los pesos que aplica updateWeights. */
+export interface WeightConstraints {
+  /** Tasas de L1 y L2 de los enlaces con elastic net. */
+  l1Rate: number;
+  l2Rate: number;
+  /**
+   * Si es mayor que 0, norma L2 máxima de los pesos que llegan a cada nodo.
+   * Si la supera tras el paso, se reescalan.
+   */
+  maxNorm: number;
+  /**
+   * Fracción de cada peso que se resta en cada paso, multiplicada por la
+   * tasa de aprendizaje, aparte del gradiente y del optimizador.
+   */
+  weightDecay: number;
+  /**
+   * Factor de todas las tasas de regularización de cada capa, empezando
+   * por la primera capa oculta. Las capas sin factor usan 1.
+   */
+  layerRates: number[];
 }
 
 /**
@@ -141,33 +652,38 @@ export class Link {
   id: string;
   source: Node;
   dest: Node;
-  weight = Math.random() - 0.5;
+  weight: number;
   isDead = false;
+  /** Si es true, updateWeights no cambia el peso. */
+  isFrozen = false;
   /** Error derivado con respecto a este peso. */
   errorDer = 0;
   /** Accumulated error derivative since the last update. */
   accErrorDer = 0;
   /** Error acumulado derivado desde la última actualización. */
   numAccumulatedDers = 0;
+  /** Estado del optimizador para este peso. */
+  optimizerState = new OptimizerState();
   regularization: RegularizationFunction;
 
   /**
-   * Construye un enlace en la red neuronal inicializada con peso aleatorio.
+   * Construye un enlace en la red neuronal.
    *
    * @param source El nodo de origen.
    * @param dest El nodo de destino.
    * @param regularization La función de regularización que calcula la
    *     penalización por este peso. Si es nulo, no habrá regularización..
+   * @param weight El peso inicial. Si se omite, es aleatorio en [-0.5, 0.5).
+   * @param random El generador aleatorio del peso inicial omitido.
    */
   constructor(source: Node, dest: Node,
-      regularization: RegularizationFunction, initZero?: boolean) {
+      regularization: RegularizationFunction, weight?: number,
+      random: RandomFunction = Math.random) {
     this.id = source.id + "-" + dest.id;
     this.source = source;
     this.dest = dest;
     this.regularization = regularization;
-    if (initZero) {
-      this.weight = 0;
-    }
+    this.weight = weight != null ? weight : random() - 0.5;
   }
 }
 
@@ -177,19 +693,25 @@ export class Link {
  * @param networkShape La estructura de la red. Por ejemplo, [1, 2, 3, 1] significa
  *   que la red tendrá un nodo de entrada, 2 nodos en la primera capa oculta,
  *   3 nodos en la segunda capa oculta y 1 nodo de salida.
- * @param activation La función de activación de cada nodo oculto.
+ * @param activation La función de activación de cada nodo oculto, o una
+ *     función por capa oculta.
  * @param outputActivation La función de activación para los nodos de salida.
+ *     Con Activations.SOFTMAX la capa de salida devuelve probabilidades.
  * @param regularization La función de regularización que calcula una penalización
  *     para un peso (parámetro) dado en la red. Si es null, no habrá
  *     regularización.
  * @param inputIds Lista de identificadores para los nodos de entrada.
+ * @param initializer El esquema que da el valor inicial de pesos y sesgos.
+ * @param random El generador aleatorio de los pesos iniciales.
  */
 
 export function buildNetwork(
-    networkShape: number[], activation: ActivationFunction,
+    networkShape: number[],
+    activation: ActivationFunction | ActivationFunction[],
     outputActivation: ActivationFunction,
     regularization: RegularizationFunction,
-    inputIds: string[], initZero?: boolean): Node[][] {
+    inputIds: string[], initializer = Initializers.UNIFORM,
+    random: RandomFunction = Math.random): Node[][] {
   let numLayers = networkShape.length;
   let id = 1;
   /** Lista de capas, donde cada capa es una lista de nodos. */
@@ -200,6 +722,8 @@ export function buildNetwork(
     let currentLayer: Node[] = [];
     network.push(currentLayer);
     let numNodes = networkShape[layerIdx];
+    let hiddenActivation = activation instanceof Array ?
+        activation[layerIdx - 1] : activation;
     for (let i = 0; i < numNodes; i++) {
       let nodeId = id.toString();
       if (isInputLayer) {
@@ -208,13 +732,16 @@ export function buildNetwork(
         id++;
       }
       let node = new Node(nodeId,
-          isOutputLayer ? outputActivation : activation, initZero);
+          isOutputLayer ? outputActivation : hiddenActivation,
+          initializer.bias);
       currentLayer.push(node);
       if (layerIdx >= 1) {
         // Agrega enlaces desde los nodos de la capa anterior a este nodo.
+        let fanIn = network[layerIdx - 1].length;
         for (let j = 0; j < network[layerIdx - 1].length; j++) {
           let prevNode = network[layerIdx - 1][j];
-          let link = new Link(prevNode, node, regularization, initZero);
+          let link = new Link(prevNode, node, regularization,
+              initializer.weight(fanIn, numNodes, random));
           prevNode.outputs.push(link);
           node.inputLinks.push(link);
         }
@@ -224,6 +751,108 @@ export function buildNetwork(
   return network;
 }
 
+/**
+ * Devuelve el índice de la capa que contiene el nodo, o -1 si no está en la
+ * red.
+ */
+export function getLayerIndex(network: Node[][], node: Node): number {
+  for (let layerIdx = 0; layerIdx < network.length; layerIdx++) {
+    if (network[layerIdx].indexOf(node) !== -1) {
+      return layerIdx;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Agrega un enlace entre dos nodos. Puede saltar capas, pero el origen debe
+ * estar en una capa anterior a la del destino para que la red siga siendo
+ * acíclica. Los enlaces de entrada del destino se mantienen en el orden de
+ * sus nodos de origen en la red, de modo que el orden de los pesos no
+ * depende del orden en que se agregaron.
+ *
+ * @param weight El peso inicial. Si se omite, es aleatorio en [-0.5, 0.5).
+ * @param random El generador aleatorio del peso inicial omitido.
+ * @throws Error si el origen no está antes que el destino o si el enlace
+ *     ya existe.
+ */
+export function addLink(network: Node[][], source: Node, dest: Node,
+    regularization: RegularizationFunction, weight?: number,
+    random: RandomFunction = Math.random): Link {
+  let sourceLayer = getLayerIndex(network, source);
+  let destLayer = getLayerIndex(network, dest);
+  if (sourceLayer === -1 || sourceLayer >= destLayer) {
+    throw new Error("A link must go from a node to a node in a later layer");
+  }
+  if (dest.inputLinks.some(link => link.source === source)) {
+    throw new Error(`The link ${source.id}-${dest.id} already exists`);
+  }
+  let nodes: Node[] = [].concat.apply([], network);
+  let position = nodes.indexOf(source);
+  let index = dest.inputLinks
+      .filter(link => nodes.indexOf(link.source) < position).length;
+  let link = new Link(source, dest, regularization, weight, random);
+  dest.inputLinks.splice(index, 0, link);
+  source.outputs.push(link);
+  return link;
+}
+
+/** Quita un enlace de la red. */
+export function removeLink(link: Link): void {
+  link.source.outputs.splice(link.source.outputs.indexOf(link), 1);
+  link.dest.inputLinks.splice(link.dest.inputLinks.indexOf(link), 1);
+}
+
+/**
+ * Enlaza cada nodo de la capa fromLayer con cada nodo de la capa toLayer,
+ * posterior, omitiendo los enlaces que ya existen. Con capas no contiguas
+ * crea conexiones residuales.
+ */
+export function connectLayers(network: Node[][], fromLayer: number,
+    toLayer: number, regularization: RegularizationFunction,
+    initializer = Initializers.UNIFORM,
+    random: RandomFunction = Math.random): void {
+  let sources = network[fromLayer];
+  network[toLayer].forEach(dest => {
+    let fanIn = dest.inputLinks.length + sources.length;
+    sources.forEach(source => {
+      if (!dest.inputLinks.some(link => link.source === source)) {
+        addLink(network, source, dest, regularization,
+            initializer.weight(fanIn, network[toLayer].length, random));
+      }
+    });
+  });
+}
+
+/**
+ * Congela o descongela el sesgo del nodo, su normalización por lotes y los
+ * pesos de sus enlaces de entrada.
+ */
+export function setNodeFrozen(node: Node, frozen: boolean): void {
+  node.isFrozen = frozen;
+  node.inputLinks.forEach(link => link.isFrozen = frozen);
+}
+
+/**
+ * Asigna la tasa de dropout de cada capa oculta. Las capas sin tasa en el
+ * arreglo no usan dropout.
+ */
+export function setDropoutRates(network: Node[][], rates: number[]): void {
+  for (let layerIdx = 1; layerIdx < network.length - 1; layerIdx++) {
+    let rate = rates[layerIdx - 1] || 0;
+    network[layerIdx].forEach(node => node.dropoutRate = rate);
+  }
+}
+
+/** Activa o desactiva la normalización por lotes de las capas ocultas. */
+export function setBatchNorm(network: Node[][], enabled: boolean): void {
+  for (let layerIdx = 1; layerIdx < network.length - 1; layerIdx++) {
+    network[layerIdx].forEach(node => {
+      node.batchNorm = enabled ? new BatchNorm() : null;
+    });
+  }
+}
+
 /**
  * Ejecuta una propagación hacia adelante de la entrada proporcionada a través de la red
  * proporcionada. Este método modifica el estado interno de la red: la
@@ -232,10 +861,14 @@ export function buildNetwork(
  * @param network La red neuronal.
  * @param inputs El arreglo de entrada. Su longitud debe coincidir con el número de nodos
  *     de entrada en la red.
+ * @param isTraining Si es true, aplica dropout invertido a los nodos ocultos:
+ *     descarta cada nodo con su probabilidad y escala los que se conservan.
+ * @param random El generador aleatorio de las máscaras de dropout.
  * @return La salida final de la red.
  */
 
-export function forwardProp(network: Node[][], inputs: number[]): number {
+export function forwardProp(network: Node[][], inputs: number[],
+    isTraining = false, random: RandomFunction = Math.random): number {
   let inputLayer = network[0];
   if (inputs.length !== inputLayer.length) {
     throw new Error("The number of inputs must match the number of nodes in" +
@@ -252,9 +885,84 @@ export function forwardProp(network: Node[][], inputs: number[]): number {
     for (let i = 0; i < currentLayer.length; i++) {
       let node = currentLayer[i];
       node.updateOutput();
+      node.dropoutScale = 1;
+      if (isTraining && node.dropoutRate > 0) {
+        node.dropoutScale = random() < node.dropoutRate ?
+            0 : 1 / (1 - node.dropoutRate);
+        node.output *= node.dropoutScale;
+      }
     }
   }
-  return network[network.length - 1][0].output;
+  let outputLayer = network[network.length - 1];
+  if (isSoftmaxLayer(outputLayer)) {
+    applySoftmax(outputLayer);
+  }
+  return outputLayer[0].output;
+}
+
+/**
+ * Ejecuta una propagación hacia adelante de un mini-lote completo, capa por
+ * capa. Guarda en cada nodo los valores de todos los ejemplos del lote, lo
+ * que permite a la normalización por lotes usar la media y la varianza del
+ * lote. Al terminar, el estado escalar de cada nodo corresponde al último
+ * ejemplo del lote.
+ *
+ * @param inputs Un arreglo de entrada por ejemplo del lote.
+ * @param isTraining Si es true, aplica dropout y normaliza con las
+ *     estadísticas del lote.
+ * @param random El generador aleatorio de las máscaras de dropout.
+ */
+export function forwardPropBatch(network: Node[][], inputs: number[][],
+    isTraining = false, random: RandomFunction = Math.random): void {
+  let batchSize = inputs.length;
+  let inputLayer = network[0];
+  inputs.forEach(input => {
+    if (input.length !== inputLayer.length) {
+      throw new Error("The number of inputs must match the number of nodes " +
+          "in the input layer");
+    }
+  });
+  for (let i = 0; i < inputLayer.length; i++) {
+    let node = inputLayer[i];
+    node.batchOutputs = inputs.map(input => input[i]);
+    node.output = node.batchOutputs[batchSize - 1];
+  }
+  for (let layerIdx = 1; layerIdx < network.length; layerIdx++) {
+    let currentLayer = network[layerIdx];
+    for (let i = 0; i < currentLayer.length; i++) {
+      let node = currentLayer[i];
+      let totalInputs: number[] = new Array(batchSize);
+      for (let b = 0; b < batchSize; b++) {
+        totalInputs[b] = node.bias;
+        for (let j = 0; j < node.inputLinks.length; j++) {
+          let link = node.inputLinks[j];
+          totalInputs[b] += link.weight * link.source.batchOutputs[b];
+        }
+      }
+      node.batchActivationInputs = node.batchNorm != null ?
+          node.batchNorm.forwardBatch(totalInputs, isTraining) : totalInputs;
+      node.batchOutputs = new Array(batchSize);
+      node.batchDropoutScales = new Array(batchSize);
+      for (let b = 0; b < batchSize; b++) {
+        let scale = 1;
+        if (isTraining && node.dropoutRate > 0) {
+          scale = random() < node.dropoutRate ?
+              0 : 1 / (1 - node.dropoutRate);
+        }
+        node.batchDropoutScales[b] = scale;
+        node.batchOutputs[b] =
+            scale * node.activation.output(node.batchActivationInputs[b]);
+      }
+      node.totalInput = totalInputs[batchSize - 1];
+      node.activationInput = node.batchActivationInputs[batchSize - 1];
+      node.dropoutScale = node.batchDropoutScales[batchSize - 1];
+      node.output = node.batchOutputs[batchSize - 1];
+    }
+  }
+  let outputLayer = network[network.length - 1];
+  if (isSoftmaxLayer(outputLayer)) {
+    applySoftmaxBatch(outputLayer);
+  }
 }
 
 /**
@@ -263,13 +971,19 @@ export function forwardProp(network: Node[][], inputs: number[]): number {
 * Este método modifica el estado interno de la red: las derivadas de error
 * con respecto a cada nodo y cada peso
 * en la red.
+*
+* @param target El valor objetivo, o un objetivo por cada nodo de salida.
 */
-export function backProp(network: Node[][], target: number,
+export function backProp(network: Node[][], target: number | number[],
     errorFunc: ErrorFunction): void {
-  // El nodo de salida es un caso especial. Usamos el error definido por el usuario.
-  // función para la derivada.
-  let outputNode = network[network.length - 1][0];
-  outputNode.outputDer = errorFunc.der(outputNode.output, target);
+  // Los nodos de salida son un caso especial. Usamos la función de error
+  // definida por el usuario para la derivada.
+  let targets = typeof target === "number" ? [target] : target;
+  let outputLayer = network[network.length - 1];
+  for (let i = 0; i < outputLayer.length; i++) {
+    let outputNode = outputLayer[i];
+    outputNode.outputDer = errorFunc.der(outputNode.output, targets[i]);
+  }
 
   // Vaya a través de las capas hacia atrás.
   for (let layerIdx = network.length - 1; layerIdx >= 1; layerIdx--) {
@@ -279,7 +993,10 @@ export function backProp(network: Node[][], target: number,
     // 2) cada uno de sus pesos de entrada.
     for (let i = 0; i < currentLayer.length; i++) {
       let node = currentLayer[i];
-      node.inputDer = node.outputDer * node.activation.der(node.totalInput);
+      let activationDer = node.outputDer *
+          node.activation.der(node.activationInput) * node.dropoutScale;
+      node.inputDer = node.batchNorm != null ?
+          node.batchNorm.backward(activationDer) : activationDer;
       node.accInputDer += node.inputDer;
       node.numAccumulatedDers++;
     }
@@ -300,6 +1017,8 @@ export function backProp(network: Node[][], target: number,
     if (layerIdx === 1) {
       continue;
     }
+    // Los enlaces de salida pueden saltar capas, pero todos llegan a capas
+    // posteriores, cuyas derivadas ya se calcularon.
     let prevLayer = network[layerIdx - 1];
     for (let i = 0; i < prevLayer.length; i++) {
       let node = prevLayer[i];
@@ -313,20 +1032,122 @@ export function backProp(network: Node[][], target: number,
   }
 }
 
+/**
+* Ejecuta una propagación hacia atrás del lote de la última llamada a
+* forwardPropBatch y acumula en cada peso y sesgo la suma de las derivadas
+* de todos los ejemplos del lote.
+*
+* @param targets Los objetivos de cada ejemplo, uno por nodo de salida.
+*/
+export function backPropBatch(network: Node[][], targets: number[][],
+    errorFunc: ErrorFunction): void {
+  let batchSize = targets.length;
+  let outputLayer = network[network.length - 1];
+  outputLayer.forEach((node, i) => {
+    node.batchOutputDers = targets.map((target, b) =>
+        errorFunc.der(node.batchOutputs[b], target[i]));
+  });
+
+  for (let layerIdx = network.length - 1; layerIdx >= 1; layerIdx--) {
+    let currentLayer = network[layerIdx];
+    for (let i = 0; i < currentLayer.length; i++) {
+      let node = currentLayer[i];
+      let activationDers = node.batchOutputDers.map((outputDer, b) =>
+          outputDer * node.activation.der(node.batchActivationInputs[b]) *
+          node.batchDropoutScales[b]);
+      node.batchInputDers = node.batchNorm != null ?
+          node.batchNorm.backwardBatch(activationDers) : activationDers;
+      for (let b = 0; b < batchSize; b++) {
+        node.accInputDer += node.batchInputDers[b];
+      }
+      node.numAccumulatedDers += batchSize;
+      node.outputDer = node.batchOutputDers[batchSize - 1];
+      node.inputDer = node.batchInputDers[batchSize - 1];
+
+      for (let j = 0; j < node.inputLinks.length; j++) {
+        let link = node.inputLinks[j];
+        if (link.isDead) {
+          continue;
+        }
+        for (let b = 0; b < batchSize; b++) {
+          link.accErrorDer +=
+              node.batchInputDers[b] * link.source.batchOutputs[b];
+        }
+        link.numAccumulatedDers += batchSize;
+        link.errorDer = node.inputDer * link.source.output;
+      }
+    }
+    if (layerIdx === 1) {
+      continue;
+    }
+    // Igual que en backProp, los destinos de los enlaces que saltan capas
+    // ya tienen sus derivadas.
+    let prevLayer = network[layerIdx - 1];
+    for (let i = 0; i < prevLayer.length; i++) {
+      let node = prevLayer[i];
+      node.batchOutputDers = new Array(batchSize);
+      for (let b = 0; b < batchSize; b++) {
+        node.batchOutputDers[b] = 0;
+        for (let j = 0; j < node.outputs.length; j++) {
+          let output = node.outputs[j];
+          node.batchOutputDers[b] +=
+              output.weight * output.dest.batchInputDers[b];
+        }
+      }
+    }
+  }
+}
+
 /**
 * Actualiza los pesos de la red utilizando las derivadas del error acumulado previamente.
+*
+* @param optimizer La regla que convierte cada gradiente medio en un cambio
+*     del parámetro. Por defecto, descenso de gradiente estocástico.
+* @param clipValue Si es mayor que 0, recorta cada gradiente a
+*     [-clipValue, clipValue].
+* @param clipNorm Si es mayor que 0, escala todos los gradientes para que su
+*     norma L2 conjunta no supere clipNorm.
+* @param constraints Tasas de elastic net, max-norm, decaimiento de pesos y
+*     factores por capa. Si es nulo, elastic net usa regularizationRate para
+*     ambas partes y no hay restricciones.
 */
 export function updateWeights(network: Node[][], learningRate: number,
-    regularizationRate: number) {
+    regularizationRate: number, optimizer = Optimizers.SGD, clipValue = 0,
+    clipNorm = 0, constraints: WeightConstraints = null) {
+  let normScale = 1;
+  if (clipNorm > 0) {
+    let norm = Math.sqrt(sumSquaredGradients(network));
+    if (norm > clipNorm) {
+      normScale = clipNorm / norm;
+    }
+  }
+  let clip = (gradient: number) => {
+    gradient *= normScale;
+    return clipValue > 0 ?
+        Math.max(-clipValue, Math.min(clipValue, gradient)) : gradient;
+  };
   for (let layerIdx = 1; layerIdx < network.length; layerIdx++) {
     let currentLayer = network[layerIdx];
     for (let i = 0; i < currentLayer.length; i++) {
       let node = currentLayer[i];
       // Actualiza el sesgo del nodo.
-      if (node.numAccumulatedDers > 0) {
-        node.bias -= learningRate * node.accInputDer / node.numAccumulatedDers;
-        node.accInputDer = 0;
-        node.numAccumulatedDers = 0;
+      if (node.numAccumulatedDers > 0 && !node.isFrozen) {
+        node.bias += optimizer.update(
+            clip(node.accInputDer / node.numAccumulatedDers),
+            node.optimizerState, learningRate);
+      }
+      node.accInputDer = 0;
+      node.numAccumulatedDers = 0;
+      if (node.batchNorm != null) {
+        if (node.isFrozen) {
+          node.batchNorm.discardDers();
+        } else {
+          node.batchNorm.updateParams(learningRate, optimizer, clip);
+        }
+      }
+      let layerRate = 1;
+      if (constraints != null && constraints.layerRates[layerIdx - 1] != null) {
+        layerRate = constraints.layerRates[layerIdx - 1];
       }
       // Actualiza los pesos que llegan a este nodo.
       for (let j = 0; j < node.inputLinks.length; j++) {
@@ -334,16 +1155,26 @@ export function updateWeights(network: Node[][], learningRate: number,
         if (link.isDead) {
           continue;
         }
-        let regulDer = link.regularization ?
-            link.regularization.der(link.weight) : 0;
+        if (link.isFrozen) {
+          link.accErrorDer = 0;
+          link.numAccumulatedDers = 0;
+          continue;
+        }
+        let regulDer = layerRate *
+            getPenaltyDer(link, regularizationRate, constraints);
         if (link.numAccumulatedDers > 0) {
           // Actualizar el peso en función de dE/dw.
-          link.weight = link.weight -
-              (learningRate / link.numAccumulatedDers) * link.accErrorDer;
+          link.weight += optimizer.update(
+              clip(link.accErrorDer / link.numAccumulatedDers),
+              link.optimizerState, learningRate);
+          if (constraints != null) {
+            link.weight -= learningRate * layerRate *
+                constraints.weightDecay * link.weight;
+          }
           // Actualizar aún más el peso en función de la regularización.
-          let newLinkWeight = link.weight -
-              (learningRate * regularizationRate) * regulDer;
-          if (link.regularization === RegularizationFunction.L1 &&
+          let newLinkWeight = link.weight - learningRate * regulDer;
+          if ((link.regularization === RegularizationFunction.L1 ||
+              link.regularization === RegularizationFunction.ELASTIC_NET) &&
               link.weight * newLinkWeight < 0) {
             // El peso superó el valor 0 debido al término de regularización. Establézcalo en 0.
             link.weight = 0;
@@ -355,10 +1186,98 @@ export function updateWeights(network: Node[][], learningRate: number,
           link.numAccumulatedDers = 0;
         }
       }
+      if (constraints != null && constraints.maxNorm > 0) {
+        applyMaxNorm(node, constraints.maxNorm);
+      }
     }
   }
 }
 
+/**
+ * Derivada de la penalización de un peso, ya multiplicada por su tasa de
+ * regularización.
+ */
+function getPenaltyDer(link: Link, regularizationRate: number,
+    constraints: WeightConstraints): number {
+  if (link.regularization == null) {
+    return 0;
+  }
+  if (link.regularization === RegularizationFunction.ELASTIC_NET &&
+      constraints != null) {
+    return constraints.l1Rate * RegularizationFunction.L1.der(link.weight) +
+        constraints.l2Rate * RegularizationFunction.L2.der(link.weight);
+  }
+  return regularizationRate * link.regularization.der(link.weight);
+}
+
+/**
+ * Reescala los pesos entrenables que llegan al nodo para que su norma L2
+ * no supere maxNorm.
+ */
+function applyMaxNorm(node: Node, maxNorm: number): void {
+  let links = node.inputLinks.filter(link => !link.isDead && !link.isFrozen);
+  let norm = 0;
+  links.forEach(link => norm += link.weight * link.weight);
+  norm = Math.sqrt(norm);
+  if (norm > maxNorm) {
+    links.forEach(link => link.weight *= maxNorm / norm);
+  }
+}
+
+/**
+ * Suma los cuadrados de los gradientes medios pendientes de aplicar a los
+ * parámetros que no están congelados.
+ */
+function sumSquaredGradients(network: Node[][]): number {
+  let sum = 0;
+  let addGradient = (accDer: number, numAccumulatedDers: number) => {
+    if (numAccumulatedDers > 0) {
+      let gradient = accDer / numAccumulatedDers;
+      sum += gradient * gradient;
+    }
+  };
+  forEachNode(network, true, node => {
+    if (!node.isFrozen) {
+      addGradient(node.accInputDer, node.numAccumulatedDers);
+    }
+    if (node.batchNorm != null && !node.isFrozen) {
+      addGradient(node.batchNorm.accGammaDer,
+          node.batchNorm.numAccumulatedDers);
+      addGradient(node.batchNorm.accBetaDer,
+          node.batchNorm.numAccumulatedDers);
+    }
+    node.inputLinks.forEach(link => {
+      if (!link.isDead && !link.isFrozen) {
+        addGradient(link.accErrorDer, link.numAccumulatedDers);
+      }
+    });
+  });
+  return sum;
+}
+
+/**
+ * Devuelve el índice de la primera capa, empezando por la entrada, con algún
+ * peso o sesgo que no sea finito (NaN o infinito), o -1 si no hay ninguna.
+ */
+export function findDivergedLayer(network: Node[][]): number {
+  for (let layerIdx = 1; layerIdx < network.length; layerIdx++) {
+    let currentLayer = network[layerIdx];
+    for (let i = 0; i < currentLayer.length; i++) {
+      let node = currentLayer[i];
+      if (!isFinite(node.bias) || (node.batchNorm != null &&
+          !(isFinite(node.batchNorm.gamma) && isFinite(node.batchNorm.beta)))) {
+        return layerIdx;
+      }
+      for (let j = 0; j < node.inputLinks.length; j++) {
+        if (!isFinite(node.inputLinks[j].weight)) {
+          return layerIdx;
+        }
+      }
+    }
+  }
+  return -1;
+}
+
 /** Itera sobre cada nodo de la red/ */
 export function forEachNode(network: Node[][], ignoreInputs: boolean,
     accessor: (node: Node) => any) {
@@ -376,4 +1295,14 @@ export function forEachNode(network: Node[][], ignoreInputs: boolean,
 /** Devuelve el nodo de salida en la red. */
 export function getOutputNode(network: Node[][]) {
   return network[network.length - 1][0];
+}
+
+/** Devuelve todos los nodos de la capa de salida. */
+export function getOutputNodes(network: Node[][]): Node[] {
+  return network[network.length - 1];
+}
+
+/** Devuelve la salida de cada nodo de salida tras la última propagación. */
+export function getOutputs(network: Node[][]): number[] {
+  return getOutputNodes(network).map(node => node.output);
 }
\ No newline at end of file
@@ -0,0 +1,338 @@
+import {
+  ActivationFunction,
+  Activations,
+  BatchNorm,
+  ErrorFunction,
+  Link,
+  Node
+} from "./nn";
+import {RandomFunction} from "./random";
+
+/**
+ * Una capa de la red empaquetada en arreglos. Los pesos que llegan a la capa
+ * forman una matriz dispersa por filas: los enlaces del nodo i ocupan las
+ * posiciones [linkStarts[i], linkStarts[i + 1]) de sources, weights e isDead.
+ */
+class PackedLayer {
+  /** Índice global del primer nodo de la capa. */
+  start: number;
+  size: number;
+  isSoftmax: boolean;
+  activations: ActivationFunction[] = [];
+  batchNorms: BatchNorm[] = [];
+  biases: Float64Array;
+  dropoutRates: Float64Array;
+  linkStarts: Int32Array;
+  /** Índice global del nodo de origen de cada enlace. */
+  sources: Int32Array;
+  weights: Float64Array;
+  isDead: Uint8Array;
+  links: Link[] = [];
+
+  constructor(nodes: Node[], start: number,
+      indexOf: {[nodeId: string]: number}) {
+    this.start = start;
+    this.size = nodes.length;
+    this.isSoftmax = nodes.length > 0 &&
+        nodes[0].activation === Activations.SOFTMAX;
+    this.biases = new Float64Array(this.size);
+    this.dropoutRates = new Float64Array(this.size);
+    this.linkStarts = new Int32Array(this.size + 1);
+    nodes.forEach((node, i) => {
+      this.linkStarts[i] = this.links.length;
+      node.inputLinks.forEach(link => this.links.push(link));
+    });
+    this.linkStarts[this.size] = this.links.length;
+    this.sources = new Int32Array(this.links.length);
+    this.links.forEach((link, k) => this.sources[k] = indexOf[link.source.id]);
+    this.weights = new Float64Array(this.links.length);
+    this.isDead = new Uint8Array(this.links.length);
+  }
+}
+
+/**
+ * Copia compacta de una red para los bucles costosos: la propagación del
+ * mapa de calor, la evaluación de la pérdida y la propagación por lotes del
+ * entrenamiento. Los objetos Node y Link siguen siendo la fuente de verdad
+ * que se dibuja, se edita y se actualiza con nn.updateWeights; sync() copia
+ * sus parámetros a los arreglos y las propagaciones por lotes escriben de
+ * vuelta en ellos las derivadas acumuladas y el estado del último ejemplo.
+ *
+ * La topología se fija al construirla, por lo que hay que crear una nueva
+ * cada vez que cambian los nodos o los enlaces de la red.
+ */
+export class PackedNetwork {
+  /** Todos los nodos de la red; su posición es su índice global. */
+  nodes: Node[] = [];
+  numInputs: number;
+  /** Índice global del primer nodo de salida. */
+  outputStart: number;
+  numOutputs: number;
+  /** Salida de cada nodo tras la última llamada a forward. */
+  outputs: Float64Array;
+  private layers: PackedLayer[] = [];
+  private batchSize = 0;
+  /**
+   * Valores de la última propagación por lotes. El valor del ejemplo b en el
+   * nodo n está en la posición n * batchSize + b.
+   */
+  private batchActivationInputs: Float64Array;
+  private batchOutputs: Float64Array;
+  private batchDropoutScales: Float64Array;
+  private batchOutputDers: Float64Array;
+  private batchInputDers: Float64Array;
+
+  constructor(network: Node[][]) {
+    let indexOf: {[nodeId: string]: number} = {};
+    network.forEach((layer, layerIdx) => {
+      let start = this.nodes.length;
+      layer.forEach(node => {
+        indexOf[node.id] = this.nodes.length;
+        this.nodes.push(node);
+      });
+      if (layerIdx > 0) {
+        this.layers.push(new PackedLayer(layer, start, indexOf));
+      }
+    });
+    this.numInputs = network[0].length;
+    this.numOutputs = network[network.length - 1].length;
+    this.outputStart = this.nodes.length - this.numOutputs;
+    this.outputs = new Float64Array(this.nodes.length);
+    this.sync();
+  }
+
+  /**
+   * Copia los pesos, sesgos, enlaces muertos, tasas de dropout, activaciones
+   * y normalizaciones por lotes actuales de los objetos de la red.
+   */
+  sync(): void {
+    this.layers.forEach(layer => {
+      for (let i = 0; i < layer.size; i++) {
+        let node = this.nodes[layer.start + i];
+        layer.biases[i] = node.bias;
+        layer.dropoutRates[i] = node.dropoutRate;
+        layer.activations[i] = node.activation;
+        layer.batchNorms[i] = node.batchNorm;
+      }
+      layer.links.forEach((link, k) => {
+        layer.weights[k] = link.weight;
+        layer.isDead[k] = link.isDead ? 1 : 0;
+      });
+    });
+  }
+
+  /**
+   * Propaga una entrada en modo de inferencia, sin dropout y con las
+   * estadísticas móviles de la normalización por lotes. No modifica los
+   * objetos de la red.
+   *
+   * @return La salida de cada nodo, indexada por su índice global. El
+   *     arreglo se reutiliza en la siguiente llamada.
+   */
+  forward(inputs: number[]): Float64Array {
+    if (inputs.length !== this.numInputs) {
+      throw new Error("The number of inputs must match the number of nodes " +
+          "in the input layer");
+    }
+    let outputs = this.outputs;
+    for (let i = 0; i < inputs.length; i++) {
+      outputs[i] = inputs[i];
+    }
+    for (let l = 0; l < this.layers.length; l++) {
+      let layer = this.layers[l];
+      let weights = layer.weights;
+      let sources = layer.sources;
+      for (let i = 0; i < layer.size; i++) {
+        let total = layer.biases[i];
+        for (let k = layer.linkStarts[i]; k < layer.linkStarts[i + 1]; k++) {
+          total += weights[k] * outputs[sources[k]];
+        }
+        let batchNorm = layer.batchNorms[i];
+        if (batchNorm != null) {
+          // Como BatchNorm.forward, pero sin escribir en el nodo.
+          let affine = batchNorm.getInferenceAffine();
+          total = affine.scale * total + affine.shift;
+        }
+        outputs[layer.start + i] = layer.activations[i].output(total);
+      }
+      if (layer.isSoftmax) {
+        softmax(outputs, layer.start, layer.size, 1);
+      }
+    }
+    return outputs;
+  }
+
+  /**
+   * Equivalente a nn.forwardPropBatch. Además de guardar los valores del
+   * lote en los arreglos, deja en cada nodo el estado del último ejemplo.
+   *
+   * @param random El generador aleatorio de las máscaras de dropout.
+   */
+  forwardBatch(inputs: number[][], isTraining = false,
+      random: RandomFunction = Math.random): void {
+    let batchSize = inputs.length;
+    this.allocateBatch(batchSize);
+    let outputs = this.batchOutputs;
+    inputs.forEach((input, b) => {
+      if (input.length !== this.numInputs) {
+        throw new Error("The number of inputs must match the number of " +
+            "nodes in the input layer");
+      }
+      for (let i = 0; i < input.length; i++) {
+        outputs[i * batchSize + b] = input[i];
+      }
+    });
+    for (let l = 0; l < this.layers.length; l++) {
+      let layer = this.layers[l];
+      let weights = layer.weights;
+      let sources = layer.sources;
+      for (let i = 0; i < layer.size; i++) {
+        let offset = (layer.start + i) * batchSize;
+        let totalInputs: number[] = new Array(batchSize);
+        for (let b = 0; b < batchSize; b++) {
+          let total = layer.biases[i];
+          for (let k = layer.linkStarts[i]; k < layer.linkStarts[i + 1];
+              k++) {
+            total += weights[k] * outputs[sources[k] * batchSize + b];
+          }
+          totalInputs[b] = total;
+        }
+        let batchNorm = layer.batchNorms[i];
+        let activationInputs = batchNorm != null ?
+            batchNorm.forwardBatch(totalInputs, isTraining) : totalInputs;
+        let dropoutRate = layer.dropoutRates[i];
+        let activation = layer.activations[i];
+        for (let b = 0; b < batchSize; b++) {
+          let scale = 1;
+          if (isTraining && dropoutRate > 0) {
+            scale = random() < dropoutRate ? 0 : 1 / (1 - dropoutRate);
+          }
+          this.batchActivationInputs[offset + b] = activationInputs[b];
+          this.batchDropoutScales[offset + b] = scale;
+          outputs[offset + b] = scale * activation.output(activationInputs[b]);
+        }
+        let node = this.nodes[layer.start + i];
+        node.totalInput = totalInputs[batchSize - 1];
+        node.activationInput = activationInputs[batchSize - 1];
+        node.dropoutScale = this.batchDropoutScales[offset + batchSize - 1];
+      }
+      if (layer.isSoftmax) {
+        for (let b = 0; b < batchSize; b++) {
+          softmax(outputs, layer.start * batchSize + b, layer.size, batchSize);
+        }
+      }
+    }
+    this.nodes.forEach((node, n) => {
+      node.output = outputs[n * batchSize + batchSize - 1];
+    });
+  }
+
+  /**
+   * Equivalente a nn.backPropBatch: acumula en cada Link y Node la suma de
+   * las derivadas del lote de la última llamada a forwardBatch, lista para
+   * nn.updateWeights.
+   *
+   * @param targets Los objetivos de cada ejemplo, uno por nodo de salida.
+   */
+  backwardBatch(targets: number[][], errorFunc: ErrorFunction): void {
+    let batchSize = this.batchSize;
+    let outputs = this.batchOutputs;
+    let outputDers = this.batchOutputDers;
+    let inputDers = this.batchInputDers;
+    for (let i = 0; i < outputDers.length; i++) {
+      outputDers[i] = 0;
+    }
+    for (let i = 0; i < this.numOutputs; i++) {
+      let offset = (this.outputStart + i) * batchSize;
+      for (let b = 0; b < batchSize; b++) {
+        outputDers[offset + b] =
+            errorFunc.der(outputs[offset + b], targets[b][i]);
+      }
+    }
+    // Como los enlaces solo van hacia capas posteriores, al llegar a una
+    // capa ya se sumaron todas las derivadas de las salidas de sus nodos.
+    for (let l = this.layers.length - 1; l >= 0; l--) {
+      let layer = this.layers[l];
+      let weights = layer.weights;
+      let sources = layer.sources;
+      for (let i = 0; i < layer.size; i++) {
+        let n = layer.start + i;
+        let offset = n * batchSize;
+        let activation = layer.activations[i];
+        let activationDers: number[] = new Array(batchSize);
+        for (let b = 0; b < batchSize; b++) {
+          activationDers[b] = outputDers[offset + b] *
+              activation.der(this.batchActivationInputs[offset + b]) *
+              this.batchDropoutScales[offset + b];
+        }
+        let batchNorm = layer.batchNorms[i];
+        let nodeInputDers = batchNorm != null ?
+            batchNorm.backwardBatch(activationDers) : activationDers;
+        let node = this.nodes[n];
+        for (let b = 0; b < batchSize; b++) {
+          inputDers[offset + b] = nodeInputDers[b];
+          node.accInputDer += nodeInputDers[b];
+        }
+        node.numAccumulatedDers += batchSize;
+        node.outputDer = outputDers[offset + batchSize - 1];
+        node.inputDer = nodeInputDers[batchSize - 1];
+
+        for (let k = layer.linkStarts[i]; k < layer.linkStarts[i + 1]; k++) {
+          let sourceOffset = sources[k] * batchSize;
+          if (!layer.isDead[k]) {
+            let accErrorDer = 0;
+            for (let b = 0; b < batchSize; b++) {
+              accErrorDer += inputDers[offset + b] * outputs[sourceOffset + b];
+            }
+            let link = layer.links[k];
+            link.accErrorDer += accErrorDer;
+            link.numAccumulatedDers += batchSize;
+            link.errorDer = node.inputDer *
+                outputs[sourceOffset + batchSize - 1];
+          }
+          if (sources[k] >= this.numInputs) {
+            for (let b = 0; b < batchSize; b++) {
+              outputDers[sourceOffset + b] +=
+                  weights[k] * inputDers[offset + b];
+            }
+          }
+        }
+      }
+    }
+  }
+
+  /** Reserva los arreglos del lote si cambió su tamaño. */
+  private allocateBatch(batchSize: number): void {
+    if (batchSize === this.batchSize) {
+      return;
+    }
+    this.batchSize = batchSize;
+    let length = this.nodes.length * batchSize;
+    this.batchActivationInputs = new Float64Array(length);
+    this.batchOutputs = new Float64Array(length);
+    this.batchDropoutScales = new Float64Array(length);
+    this.batchOutputDers = new Float64Array(length);
+    this.batchInputDers = new Float64Array(length);
+  }
+}
+
+/**
+ * Reemplaza count valores, separados por stride a partir de start, por sus
+ * probabilidades softmax. Resta el máximo para evitar desbordamientos.
+ */
+function softmax(values: Float64Array, start: number, count: number,
+    stride: number): void {
+  let end = start + count * stride;
+  let max = -Infinity;
+  for (let i = start; i < end; i += stride) {
+    max = Math.max(max, values[i]);
+  }
+  let sum = 0;
+  for (let i = start; i < end; i += stride) {
+    values[i] = Math.exp(values[i] - max);
+    sum += values[i];
+  }
+  for (let i = start; i < end; i += stride) {
+    values[i] /= sum;
+  }
+}
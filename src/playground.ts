@@ -1,17 +1,75 @@
 import * as nn from "./nn";
-import {HeatMap, reduceMatrix} from "./heatmap";
+import {
+  HeatMap,
+  PointEditHandlers,
+  reduceMatrix,
+  CLASS_COLORS
+} from "./heatmap";
 import {
   State,
   datasets,
   regDatasets,
+  multiDatasets,
   activations,
+  losses,
+  optimizers,
+  lrSchedules,
+  initializers,
   problems,
   regularizations,
+  skipConnections,
+  loopModes,
   getKeyFromValue,
-  Problem
+  Problem,
+  SkipConnections
 } from "./state";
-import {Example2D, shuffle} from "./dataset";
+import {
+  DataGenerator,
+  Example2D,
+  copyPoint,
+  generatePoints,
+  getLabels
+} from "./dataset";
+import {
+  ColumnMapping,
+  CustomDataset,
+  DataTable,
+  buildDataset,
+  getCustomDatasetKey,
+  guessMapping,
+  loadCustomDatasets,
+  parseTable,
+  removeCustomDataset,
+  saveCustomDataset,
+  toGenerator
+} from "./customdata";
+import {RandomFunction, newSeed, seededRandom, shuffle} from "./random";
 import {AppendingLineChart} from "./linechart";
+import {ActivationPlot} from "./activationplot";
+import {CodeFormat, FeatureSource, exportNetwork} from "./codeexport";
+import {
+  GRADIENT_TOLERANCE,
+  checkAllFunctions,
+  checkGradients
+} from "./gradientcheck";
+import {PruneMethod, PruneResult, getSparsity} from "./pruning";
+import {
+  LoopMode,
+  Snapshot,
+  TrainerRequest,
+  TrainingConfig,
+  TrainingSet
+} from "./training";
+import {
+  NetworkParams,
+  buildFromSpec,
+  getNetworkSpec,
+  getParams,
+  getRegistryKey,
+  parseModel,
+  saveModel,
+  setParams
+} from "./networkstate";
 import d3 from 'd3';
 
 let mainWidth;
@@ -33,9 +91,22 @@ function scrollTween(offset) {
 
 const RECT_SIZE = 30;
 const BIAS_SIZE = 5;
+/**
+ * Tiempo que la tarjeta de un peso o sesgo sigue visible tras salir de él,
+ * para poder llegar a ella con el ratón.
+ */
+const HOVERCARD_HIDE_MS = 300;
+/** Cuánto se curva un enlace por cada capa que salta. */
+const SKIP_LINK_BEND = 30;
 const NUM_SAMPLES_CLASSIFY = 500;
 const NUM_SAMPLES_REGRESS = 1200;
 const DENSITY = 100;
+/** Las propiedades de state con la semilla de cada fuente de aleatoriedad. */
+const SEED_NAMES = ["dataSeed", "splitSeed", "initSeed", "batchSeed"];
+/** Pasos del bucle por segundo de cada posición del control de velocidad. */
+const SPEEDS = [1, 2, 5, 10, 20, 50, 0];
+/** Ediciones de los puntos que se pueden deshacer. */
+const MAX_UNDO = 50;
 
 enum HoverType {
   BIAS, WEIGHT
@@ -44,38 +115,82 @@ enum HoverType {
 interface InputFeature {
   f: (x: number, y: number) => number;
   label?: string;
+  /** El cuerpo de f como código, para exportar la red. */
+  code: string;
 }
 
 let INPUTS: {[name: string]: InputFeature} = {
-  "x": {f: (x, y) => x, label: "X_1"},
-  "y": {f: (x, y) => y, label: "X_2"},
-  "xSquared": {f: (x, y) => x * x, label: "X_1^2"},
-  "ySquared": {f: (x, y) => y * y,  label: "X_2^2"},
-  "xTimesY": {f: (x, y) => x * y, label: "X_1X_2"},
-  "sinX": {f: (x, y) => Math.sin(x), label: "sin(X_1)"},
-  "sinY": {f: (x, y) => Math.sin(y), label: "sin(X_2)"},
+  "x": {f: (x, y) => x, label: "X_1", code: "x"},
+  "y": {f: (x, y) => y, label: "X_2", code: "y"},
+  "xSquared": {f: (x, y) => x * x, label: "X_1^2", code: "x * x"},
+  "ySquared": {f: (x, y) => y * y,  label: "X_2^2", code: "y * y"},
+  "xTimesY": {f: (x, y) => x * y, label: "X_1X_2", code: "x * y"},
+  "sinX": {f: (x, y) => Math.sin(x), label: "sin(X_1)", code: "Math.sin(x)"},
+  "sinY": {f: (x, y) => Math.sin(y), label: "sin(X_2)", code: "Math.sin(y)"},
+};
+
+/** Archivo que se descarga para cada opción de #code-format. */
+let CODE_FORMATS: {[key: string]:
+    {format: CodeFormat, filename: string, type: string}} = {
+  "typescript": {format: CodeFormat.TYPESCRIPT, filename: "predict.ts",
+      type: "text/typescript"},
+  "javascript": {format: CodeFormat.JAVASCRIPT, filename: "predict.js",
+      type: "text/javascript"},
+  "latex": {format: CodeFormat.LATEX, filename: "network.tex",
+      type: "application/x-tex"},
+  "pseudocode": {format: CodeFormat.PSEUDOCODE, filename: "network.txt",
+      type: "text/plain"}
 };
 
 let HIDABLE_CONTROLS = [
   ["Show test data", "showTestData"],
   ["Discretize output", "discretize"],
+  ["Point editor", "pointEditor"],
+  ["Output heatmaps", "outputHeatmaps"],
   ["Play button", "playButton"],
   ["Step button", "stepButton"],
+  ["Speed", "speed"],
+  ["Training step", "trainingLoop"],
   ["Reset button", "resetButton"],
   ["Learning rate", "learningRate"],
+  ["Optimizer", "optimizer"],
+  ["Learning rate schedule", "lrSchedule"],
   ["Activation", "activation"],
+  ["Layer activations", "layerActivation"],
+  ["Leaky ReLU slope", "leakySlope"],
+  ["Initialization", "initializer"],
   ["Regularization", "regularization"],
   ["Regularization rate", "regularizationRate"],
+  ["Elastic net rates", "elasticNet"],
+  ["Max norm and weight decay", "weightConstraints"],
+  ["Layer regularization", "layerRegularization"],
+  ["Loss function", "loss"],
+  ["Gradient clipping", "gradientClipping"],
+  ["Early stopping", "earlyStopping"],
   ["Problem type", "problem"],
   ["Which dataset", "dataset"],
+  ["Import data", "importData"],
+  ["Number of classes", "numClasses"],
   ["Ratio train data", "percTrainData"],
   ["Noise level", "noise"],
   ["Batch size", "batchSize"],
+  ["Random seeds", "seeds"],
+  ["Batch normalization", "batchNorm"],
+  ["Skip connections", "skipConnections"],
   ["# of hidden layers", "numHiddenLayers"],
+  ["Dropout", "dropout"],
+  ["Freeze layers", "freeze"],
+  ["Save/load model", "saveModel"],
+  ["Export code", "exportCode"],
+  ["Pruning", "pruning"],
+  ["Gradient check", "gradientCheck"],
 ];
 
+/**
+ * Controla la reproducción del entrenamiento. El entrenamiento corre en el
+ * worker, así que reproducir y pausar solo le envían la orden.
+ */
 class Player {
-  private timerIndex = 0;
   private isPlaying = false;
   private callback: (isPlaying: boolean) => void = null;
 
@@ -102,28 +217,32 @@ class Player {
     if (this.callback) {
       this.callback(this.isPlaying);
     }
-    this.start(this.timerIndex);
+    sendConfig();
+    postToTrainer({type: "start"});
   }
 
   pause() {
-    this.timerIndex++;
     this.isPlaying = false;
     if (this.callback) {
       this.callback(this.isPlaying);
     }
+    postToTrainer({type: "pause"});
   }
 
-  private start(localTimerIndex: number) {
-    d3.timer(() => {
-      if (localTimerIndex < this.timerIndex) {
-        return true;  
-      }
-      oneStep();
-      return false;  
-    }, 0);
+  getIsPlaying(): boolean {
+    return this.isPlaying;
   }
 }
 
+/** Los conjuntos importados, por su clave en la URL. */
+let customDatasets: {[key: string]: CustomDataset} = {};
+/** La tabla del archivo que se está importando, o null. */
+let importTable: DataTable = null;
+
+// Los conjuntos importados se registran antes de leer la URL, que puede
+// elegir uno de ellos.
+loadCustomDatasets().forEach(registerCustomDataset);
+
 let state = State.deserializeState();
 
 state.getHiddenProps().forEach(prop => {
@@ -133,7 +252,12 @@ state.getHiddenProps().forEach(prop => {
 });
 
 let boundary: {[id: string]: number[][]} = {};
+/** Entradas de la red en cada punto de la cuadrícula del mapa de calor. */
+let boundaryGrid: number[][] = [];
 let selectedNodeId: string = null;
+let hoverCardTimer: number = null;
+/** Nodo elegido con shift+clic como extremo de un nuevo enlace. */
+let linkSourceId: string = null;
 let xDomain: [number, number] = [-6, 6];
 let heatMap =
     new HeatMap(300, DENSITY, xDomain, xDomain, d3.select("#heatmap"),
@@ -147,14 +271,31 @@ let colorScale = d3.scale.linear<string, number>()
                      .range(["#f59322", "#e8eaeb", "#0877bd"])
                      .clamp(true);
 let iter = 0;
+/** Actualizaciones de los parámetros, una por mini-lote. */
+let updates = 0;
 let trainData: Example2D[] = [];
 let testData: Example2D[] = [];
+/** Etiqueta de los puntos que se agregan con un clic en el mapa de calor. */
+let editLabel = 1;
+/** Los datos antes de cada edición de los puntos, para deshacerlas. */
+let editHistory: {train: Example2D[], test: Example2D[]}[] = [];
 let network: nn.Node[][] = null;
+let droppedNodeIds: {[id: string]: boolean} = {};
 let lossTrain = 0;
 let lossTest = 0;
+/** La última poda de la red actual, o null si no se podó. */
+let lastPrune: PruneResult = null;
 let player = new Player();
+let trainer = new Worker("worker.js");
+/** Versión de la red actual; las instantáneas de otras se descartan. */
+let networkVersion = 0;
+let lastConfig: string = null;
+/** Instantánea pendiente de dibujar en el próximo cuadro. */
+let pendingSnapshot: Snapshot = null;
+let activationPlot = new ActivationPlot(d3.select("#activation-plot"),
+    120, 36);
 let lineChart = new AppendingLineChart(d3.select("#linechart"),
-    ["#777", "black"]);
+    ["#777", "black", "#0877bd"], 1);
 
 function makeGUI() {
   d3.select("#reset-button").on("click", () => {
@@ -178,55 +319,169 @@ function makeGUI() {
     if (iter === 0) {
       simulationStarted();
     }
-    oneStep();
+    sendConfig();
+    postToTrainer({type: "step"});
   });
 
-  d3.select("#data-regen-button").on("click", () => {
-    generateData();
-    parametersChanged = true;
+  d3.select("#export-model-button").on("click", () => {
+    userHasInteracted();
+    exportModel();
   });
 
-  let dataThumbnails = d3.selectAll("canvas[data-dataset]");
-  dataThumbnails.on("click", function() {
-    let newDataset = datasets[this.dataset.dataset];
-    if (newDataset === state.dataset) {
-      return; 
+  let modelFile = d3.select("#import-model-file").on("change", function() {
+    let file: File = this.files[0];
+    if (file == null) {
+      return;
     }
-    state.dataset =  newDataset;
-    dataThumbnails.classed("selected", false);
-    d3.select(this).classed("selected", true);
-    generateData();
-    parametersChanged = true;
-    reset();
+    userHasInteracted();
+    let reader = new FileReader();
+    reader.onload = () => {
+      try {
+        loadModel(reader.result as string);
+        showModelError(null);
+      } catch (e) {
+        showModelError(e.message);
+      }
+    };
+    reader.readAsText(file);
+    // Permite volver a elegir el mismo archivo.
+    this.value = "";
   });
 
-  let datasetKey = getKeyFromValue(datasets, state.dataset);
-  d3.select(`canvas[data-dataset=${datasetKey}]`)
-    .classed("selected", true);
+  d3.select("#export-code-button").on("click", () => {
+    userHasInteracted();
+    let option = CODE_FORMATS[d3.select("#code-format").property("value")];
+    let features: {[id: string]: FeatureSource} = {};
+    for (let inputId in INPUTS) {
+      features[inputId] = {
+        code: INPUTS[inputId].code,
+        latex: INPUTS[inputId].label.replace(/(sin|cos)\(/, "\\$1(")
+      };
+    }
+    downloadFile(option.filename,
+        exportNetwork(network, features, option.format), option.type);
+  });
 
-  let regDataThumbnails = d3.selectAll("canvas[data-regDataset]");
-  regDataThumbnails.on("click", function() {
-    let newDataset = regDatasets[this.dataset.regdataset];
-    if (newDataset === state.regDataset) {
-      return; 
+  let pruneFraction = () => +d3.select("#prune-fraction").property("value");
+  d3.select("#prune-weights-button").on("click", () => {
+    userHasInteracted();
+    postToTrainer({type: "prune", method: PruneMethod.WEIGHTS,
+        fraction: pruneFraction()});
+  });
+
+  d3.select("#prune-neurons-button").on("click", () => {
+    userHasInteracted();
+    postToTrainer({type: "prune", method: PruneMethod.NEURONS,
+        fraction: pruneFraction()});
+  });
+
+  d3.select("#restore-best-button").on("click", () => {
+    userHasInteracted();
+    postToTrainer({type: "restoreBest"});
+  });
+
+  d3.select("#revive-button").on("click", () => {
+    userHasInteracted();
+    postToTrainer({type: "revive"});
+  });
+
+  d3.select("#prune-cycles-button").on("click", () => {
+    userHasInteracted();
+    postToTrainer({
+      type: "pruneCycles",
+      method: PruneMethod.WEIGHTS,
+      fraction: pruneFraction(),
+      cycles: +d3.select("#prune-cycles").property("value"),
+      epochs: +d3.select("#prune-epochs").property("value")
+    });
+    if (!player.getIsPlaying()) {
+      player.play();
     }
-    state.regDataset =  newDataset;
-    regDataThumbnails.classed("selected", false);
-    d3.select(this).classed("selected", true);
+  });
+
+  d3.select("#check-gradients-button").on("click", () => {
+    userHasInteracted();
+    let batch = trainData.slice(0, state.batchSize);
+    let results = checkGradients(network,
+        batch.map(point => constructInput(point.x, point.y)),
+        batch.map(getTargets), getErrorFunction());
+    showGradientCheck(["Layer", "Weights", "Biases", "Worst"],
+        results.map(result => [
+          result.layerIdx === network.length - 1 ?
+              "Output" : `Hidden ${result.layerIdx}`,
+          result.maxWeightError,
+          result.maxBiasError,
+          result.worstParamId || ""
+        ]));
+  });
+
+  d3.select("#check-functions-button").on("click", () => {
+    userHasInteracted();
+    showGradientCheck(["Activation", "Loss", "Batch norm", "Error"],
+        checkAllFunctions().map(result => [
+          result.activation,
+          result.loss,
+          result.batchNorm ? "Yes" : "No",
+          result.maxError
+        ]));
+  });
+
+  d3.select("#hovercard")
+    .on("mouseenter", () => window.clearTimeout(hoverCardTimer))
+    .on("mouseleave", () => updateHoverCard(null));
+
+  d3.select("#import-model-button").on("click", () => {
+    (modelFile.node() as HTMLInputElement).click();
+  });
+
+  d3.select("#data-regen-button").on("click", () => {
+    state.dataSeed = newSeed();
+    updateSeedControls();
     generateData();
     parametersChanged = true;
-    reset();
   });
 
-  let regDatasetKey = getKeyFromValue(regDatasets, state.regDataset);
-  d3.select(`canvas[data-regDataset=${regDatasetKey}]`)
-    .classed("selected", true);
+  SEED_NAMES.forEach(name => {
+    d3.select(`#${name}`).on("change", function() {
+      changeSeed(name, this.value.trim() || newSeed());
+    });
+    d3.select(`#${name}-button`).on("click", () => {
+      changeSeed(name, newSeed());
+    });
+  });
+  updateSeedControls();
+
+  bindDatasetThumbnails();
+
+  d3.select("#import-data-button").on("click", () => {
+    (dataFile.node() as HTMLInputElement).click();
+  });
+
+  let dataFile = d3.select("#import-data-file").on("change", function() {
+    let file: File = this.files[0];
+    if (file == null) {
+      return;
+    }
+    userHasInteracted();
+    let reader = new FileReader();
+    reader.onload = () => openDataImport(reader.result as string, file.name);
+    reader.readAsText(file);
+    // Permite volver a elegir el mismo archivo.
+    this.value = "";
+  });
+
+  d3.selectAll("#data-import-name, #data-import select")
+    .on("input", updateDataImportPreview)
+    .on("change", updateDataImportPreview);
+  d3.select("#data-import-add").on("click", addImportedDataset);
+  d3.select("#data-import-cancel").on("click", closeDataImport);
 
   d3.select("#add-layers").on("click", () => {
     if (state.numHiddenLayers >= 6) {
       return;
     }
     state.networkShape[state.numHiddenLayers] = 2;
+    state.dropoutRates[state.numHiddenLayers] = 0;
     state.numHiddenLayers++;
     parametersChanged = true;
     reset();
@@ -238,6 +493,8 @@ function makeGUI() {
     }
     state.numHiddenLayers--;
     state.networkShape.splice(state.numHiddenLayers);
+    state.layerActivations.splice(state.numHiddenLayers);
+    state.dropoutRates.splice(state.numHiddenLayers);
     parametersChanged = true;
     reset();
   });
@@ -246,10 +503,19 @@ function makeGUI() {
     state.showTestData = this.checked;
     state.serialize();
     userHasInteracted();
-    heatMap.updateTestPoints(state.showTestData ? testData : []);
+    updateHeatMapPoints();
   });
   showTestData.property("checked", state.showTestData);
 
+  heatMap.enablePointEditing(pointEditHandlers);
+  d3.select("#undo-edit-button").on("click", undoPointEdit);
+  d3.select("#clear-points-button").on("click", () => {
+    editPoints(() => {
+      trainData = [];
+      testData = [];
+    });
+  });
+
   let discretize = d3.select("#discretize").on("change", function() {
     state.discretize = this.checked;
     state.serialize();
@@ -288,8 +554,21 @@ function makeGUI() {
   noise.property("value", state.noise);
   d3.select("label[for='noise'] .value").text(state.noise);
 
+  let numClasses = d3.select("#numClasses").on("input", function() {
+    state.numClasses = +this.value;
+    d3.select("label[for='numClasses'] .value").text(this.value);
+    drawDatasetThumbnails();
+    generateData();
+    parametersChanged = true;
+    reset();
+  });
+  numClasses.property("value", state.numClasses);
+  d3.select("label[for='numClasses'] .value").text(state.numClasses);
+  // Un conjunto multiclase importado tiene su propia cantidad de clases.
+  updateCustomNumClasses();
+
   let batchSize = d3.select("#batchSize").on("input", function() {
-    state.batchSize = this.value;
+    state.batchSize = +this.value;
     d3.select("label[for='batchSize'] .value").text(this.value);
     parametersChanged = true;
     reset();
@@ -297,31 +576,173 @@ function makeGUI() {
   batchSize.property("value", state.batchSize);
   d3.select("label[for='batchSize'] .value").text(state.batchSize);
 
+  let batchNorm = d3.select("#batch-norm").on("change", function() {
+    state.batchNorm = this.checked;
+    parametersChanged = true;
+    reset();
+  });
+  batchNorm.property("checked", state.batchNorm);
+
   let activationDropdown = d3.select("#activations").on("change", function() {
     state.activation = activations[this.value];
+    state.layerActivations = [];
+    activationPlot.update(state.activation);
     parametersChanged = true;
     reset();
   });
   activationDropdown.property("value",
       getKeyFromValue(activations, state.activation));
+  activationPlot.update(state.activation);
+
+  let leakySlope = d3.select("#leakySlope").on("change", function() {
+    state.leakySlope = +this.value;
+    nn.Activations.leakyReluSlope = state.leakySlope;
+    state.serialize();
+    userHasInteracted();
+    parametersChanged = true;
+    activationPlot.update(state.activation);
+  });
+  leakySlope.property("value", state.leakySlope);
+
+  let skipDropdown = d3.select("#skip-connections").on("change",
+      function() {
+    state.skipConnections = skipConnections[this.value];
+    parametersChanged = true;
+    reset();
+  });
+  skipDropdown.property("value",
+      getKeyFromValue(skipConnections, state.skipConnections));
+
+  let initDropdown = d3.select("#initializers").on("change", function() {
+    state.initializer = initializers[this.value];
+    parametersChanged = true;
+    reset();
+  });
+  initDropdown.property("value",
+      getKeyFromValue(initializers, state.initializer));
 
   let learningRate = d3.select("#learningRate").on("change", function() {
     state.learningRate = +this.value;
     state.serialize();
     userHasInteracted();
     parametersChanged = true;
+    updateScheduleControls();
   });
   learningRate.property("value", state.learningRate);
 
+  let lrSchedule = d3.select("#lrSchedules").on("change", function() {
+    state.lrSchedule = lrSchedules[this.value];
+    state.serialize();
+    userHasInteracted();
+    parametersChanged = true;
+    updateScheduleControls();
+  });
+  lrSchedule.property("value", getKeyFromValue(lrSchedules, state.lrSchedule));
+
+  let lrPeriod = d3.select("#lrPeriod").on("change", function() {
+    state.lrPeriod = +this.value;
+    state.serialize();
+    userHasInteracted();
+    parametersChanged = true;
+    updateScheduleControls();
+  });
+  lrPeriod.property("value", state.lrPeriod);
+
+  let lrDecay = d3.select("#lrDecay").on("change", function() {
+    state.lrDecay = +this.value;
+    state.serialize();
+    userHasInteracted();
+    parametersChanged = true;
+    updateScheduleControls();
+  });
+  lrDecay.property("value", state.lrDecay);
+  updateScheduleControls();
+
+  let optimizerDropdown = d3.select("#optimizers").on("change", function() {
+    state.optimizer = optimizers[this.value];
+    parametersChanged = true;
+    reset();
+  });
+  optimizerDropdown.property("value",
+      getKeyFromValue(optimizers, state.optimizer));
+
   let regularDropdown = d3.select("#regularizations").on("change",
       function() {
     state.regularization = regularizations[this.value];
+    updateRegularizationControls();
     parametersChanged = true;
     reset();
   });
   regularDropdown.property("value",
       getKeyFromValue(regularizations, state.regularization));
 
+  d3.select("#losses").on("change", function() {
+    state.loss = losses[this.value];
+    parametersChanged = true;
+    reset();
+  });
+  updateLossOptions();
+
+  let clipValue = d3.select("#clipValue").on("change", function() {
+    state.clipValue = +this.value;
+    state.serialize();
+    userHasInteracted();
+    parametersChanged = true;
+  });
+  clipValue.property("value", state.clipValue);
+
+  let clipNorm = d3.select("#clipNorm").on("change", function() {
+    state.clipNorm = +this.value;
+    state.serialize();
+    userHasInteracted();
+    parametersChanged = true;
+  });
+  clipNorm.property("value", state.clipNorm);
+
+  let speed = d3.select("#stepsPerSecond").on("input", function() {
+    state.stepsPerSecond = SPEEDS[+this.value];
+    state.serialize();
+    userHasInteracted();
+    updateSpeedLabel();
+    sendConfig();
+  });
+  speed.property("value", Math.max(0, SPEEDS.indexOf(state.stepsPerSecond)));
+  updateSpeedLabel();
+
+  let loopMode = d3.select("#loopMode").on("change", function() {
+    state.loopMode = loopModes[this.value];
+    state.serialize();
+    userHasInteracted();
+    updateLoopControls();
+    sendConfig();
+  });
+  loopMode.property("value", getKeyFromValue(loopModes, state.loopMode));
+
+  let epochsPerStep = d3.select("#epochsPerStep").on("change", function() {
+    state.epochsPerStep = +this.value;
+    state.serialize();
+    userHasInteracted();
+    sendConfig();
+  });
+  epochsPerStep.property("value", state.epochsPerStep);
+  updateLoopControls();
+
+  let patience = d3.select("#patience").on("change", function() {
+    state.patience = +this.value;
+    state.serialize();
+    userHasInteracted();
+    parametersChanged = true;
+  });
+  patience.property("value", state.patience);
+
+  let minDelta = d3.select("#minDelta").on("change", function() {
+    state.minDelta = +this.value;
+    state.serialize();
+    userHasInteracted();
+    parametersChanged = true;
+  });
+  minDelta.property("value", state.minDelta);
+
   let regularRate = d3.select("#regularRate").on("change", function() {
     state.regularizationRate = +this.value;
     parametersChanged = true;
@@ -329,8 +750,23 @@ function makeGUI() {
   });
   regularRate.property("value", state.regularizationRate);
 
+  // Las tasas de elastic net y las restricciones de los pesos llegan al
+  // worker con la configuración, sin reconstruir la red.
+  ["l1Rate", "l2Rate", "maxNorm", "weightDecay"].forEach(name => {
+    let select = d3.select(`#${name}`).on("change", function() {
+      state[name] = +this.value;
+      state.serialize();
+      userHasInteracted();
+      parametersChanged = true;
+    });
+    select.property("value", state[name]);
+  });
+  updateRegularizationControls();
+
   let problem = d3.select("#problem").on("change", function() {
     state.problem = problems[this.value];
+    updateLossOptions();
+    updateCustomNumClasses();
     generateData();
     drawDatasetThumbnails();
     parametersChanged = true;
@@ -356,15 +792,384 @@ function makeGUI() {
     if (newWidth !== mainWidth) {
       mainWidth = newWidth;
       drawNetwork(network);
-      updateUI(true);
+      updateUI();
+    }
+  });
+
+  if (state.hideText) {
+    d3.select("#article-text").style("display", "none");
+    d3.select("div.more").style("display", "none");
+    d3.select("header").style("display", "none");
+  }
+}
+
+/** Devuelve las claves de las pérdidas válidas para el tipo de problema. */
+function getValidLosses(problem: Problem): string[] {
+  if (problem === Problem.REGRESSION) {
+    return ["square", "huber"];
+  }
+  if (problem === Problem.MULTICLASS) {
+    return ["crossentropy"];
+  }
+  return ["square", "crossentropy", "hinge", "huber"];
+}
+
+/**
+ * Responde a los clics en las miniaturas de los conjuntos de datos, también
+ * las de los importados, y marca la del conjunto elegido.
+ */
+function bindDatasetThumbnails() {
+  d3.selectAll("canvas.data-thumbnail").classed("selected", false);
+
+  let dataThumbnails = d3.selectAll("canvas[data-dataset]");
+  dataThumbnails.on("click", function() {
+    let newDataset = datasets[this.dataset.dataset];
+    if (newDataset === state.dataset) {
+      return; 
+    }
+    state.dataset =  newDataset;
+    dataThumbnails.classed("selected", false);
+    d3.select(this).classed("selected", true);
+    generateData();
+    parametersChanged = true;
+    reset();
+  });
+
+  let datasetKey = getKeyFromValue(datasets, state.dataset);
+  d3.select(`canvas[data-dataset=${datasetKey}]`)
+    .classed("selected", true);
+
+  let regDataThumbnails = d3.selectAll("canvas[data-regDataset]");
+  regDataThumbnails.on("click", function() {
+    let newDataset = regDatasets[this.dataset.regdataset];
+    if (newDataset === state.regDataset) {
+      return; 
+    }
+    state.regDataset =  newDataset;
+    regDataThumbnails.classed("selected", false);
+    d3.select(this).classed("selected", true);
+    generateData();
+    parametersChanged = true;
+    reset();
+  });
+
+  let regDatasetKey = getKeyFromValue(regDatasets, state.regDataset);
+  d3.select(`canvas[data-regDataset=${regDatasetKey}]`)
+    .classed("selected", true);
+
+  let multiDataThumbnails = d3.selectAll("canvas[data-multiDataset]");
+  multiDataThumbnails.on("click", function() {
+    let newDataset = multiDatasets[this.dataset.multidataset];
+    if (newDataset === state.multiDataset) {
+      return;
     }
+    state.multiDataset = newDataset;
+    updateCustomNumClasses();
+    multiDataThumbnails.classed("selected", false);
+    d3.select(this).classed("selected", true);
+    generateData();
+    parametersChanged = true;
+    reset();
   });
 
-  if (state.hideText) {
-    d3.select("#article-text").style("display", "none");
-    d3.select("div.more").style("display", "none");
-    d3.select("header").style("display", "none");
+  let multiDatasetKey = getKeyFromValue(multiDatasets, state.multiDataset);
+  d3.select(`canvas[data-multiDataset=${multiDatasetKey}]`)
+    .classed("selected", true);
+}
+
+/** Los conjuntos de datos que se pueden elegir para el problema. */
+function getDatasetRegistry(problem: Problem):
+    {[key: string]: DataGenerator} {
+  return problem === Problem.CLASSIFICATION ? datasets :
+      (problem === Problem.MULTICLASS ? multiDatasets : regDatasets);
+}
+
+/**
+ * La propiedad de state con el conjunto elegido para el problema. Es
+ * también el nombre del atributo data- de sus miniaturas.
+ */
+function getDatasetProp(problem: Problem): string {
+  return problem === Problem.CLASSIFICATION ? "dataset" :
+      (problem === Problem.MULTICLASS ? "multiDataset" : "regDataset");
+}
+
+/** El conjunto importado elegido para el problema actual, o null. */
+function getSelectedCustomDataset(): CustomDataset {
+  let key = getKeyFromValue(getDatasetRegistry(state.problem),
+      state[getDatasetProp(state.problem)]);
+  return customDatasets[key] || null;
+}
+
+/**
+ * Un conjunto multiclase importado fija la cantidad de clases, que deja de
+ * poder elegirse.
+ */
+function updateCustomNumClasses() {
+  let dataset = getSelectedCustomDataset();
+  if (dataset == null || dataset.problem !== Problem.MULTICLASS) {
+    return;
+  }
+  state.numClasses = dataset.numClasses;
+  let slider: any = d3.select("#numClasses").node();
+  if (slider.MaterialSlider != null) {
+    slider.MaterialSlider.change(state.numClasses);
+  } else {
+    slider.value = state.numClasses;
+  }
+  d3.select("label[for='numClasses'] .value").text(state.numClasses);
+}
+
+/**
+ * Agrega un conjunto importado a los que se pueden elegir para su
+ * problema, con su miniatura. Reemplaza al que tenga el mismo nombre.
+ */
+function registerCustomDataset(dataset: CustomDataset) {
+  let key = getCustomDatasetKey(dataset);
+  if (key in customDatasets) {
+    unregisterCustomDataset(key);
+  }
+  customDatasets[key] = dataset;
+  getDatasetRegistry(dataset.problem)[key] = toGenerator(dataset);
+  let item = d3.select("#custom-datasets").append("div")
+    .attr({
+      "id": `dataset-${key}`,
+      "class": "dataset custom",
+      "title": dataset.name
+    });
+  item.append("canvas")
+    .attr("class", "data-thumbnail")
+    .attr(`data-${getDatasetProp(dataset.problem)}`, key);
+  item.append("button")
+      .attr("class", "remove-dataset")
+      .attr("title", "Delete this dataset")
+      .on("click", () => deleteCustomDataset(key))
+    .append("i")
+      .attr("class", "material-icons")
+      .text("close");
+}
+
+function unregisterCustomDataset(key: string) {
+  delete getDatasetRegistry(customDatasets[key].problem)[key];
+  delete customDatasets[key];
+  d3.select(`#dataset-${key}`).remove();
+}
+
+/**
+ * Borra un conjunto importado del navegador. Si estaba elegido, vuelve al
+ * primer conjunto de su problema.
+ */
+function deleteCustomDataset(key: string) {
+  let dataset = customDatasets[key];
+  if (!window.confirm(`Delete the dataset ${dataset.name}?`)) {
+    return;
+  }
+  let prop = getDatasetProp(dataset.problem);
+  let registry = getDatasetRegistry(dataset.problem);
+  let isSelected = state[prop] === registry[key];
+  removeCustomDataset(dataset.name);
+  unregisterCustomDataset(key);
+  if (!isSelected) {
+    return;
+  }
+  state[prop] = registry[Object.keys(registry)[0]];
+  bindDatasetThumbnails();
+  drawDatasetThumbnails();
+  if (dataset.problem === state.problem) {
+    generateData();
+    parametersChanged = true;
+    reset();
+  } else {
+    state.serialize();
+  }
+}
+
+/** Muestra las columnas del archivo para elegir cuáles usar. */
+function openDataImport(text: string, fileName: string) {
+  try {
+    importTable = parseTable(text, fileName);
+  } catch (e) {
+    importTable = null;
+    d3.select("#data-import").style("display", null);
+    d3.select("#data-import-mapping").style("display", "none");
+    d3.select("#data-import-add").property("disabled", true);
+    showDataImportError(e.message);
+    return;
+  }
+  let mapping = guessMapping(importTable);
+  let fillSelect = (id: string, selected: number, hasNone = false) => {
+    let select = d3.select(`#${id}`);
+    select.selectAll("option").remove();
+    if (hasNone) {
+      select.append("option").attr("value", -1).text("None");
+    }
+    importTable.columns.forEach((column, i) => {
+      select.append("option").attr("value", i).text(column);
+    });
+    select.property("value", selected);
+  };
+  fillSelect("data-import-x", mapping.x);
+  fillSelect("data-import-y", mapping.y);
+  fillSelect("data-import-label", mapping.labels[0]);
+  fillSelect("data-import-label2", -1, true);
+  d3.select("#data-import-name").property("value",
+      fileName.replace(/\.[^.]*$/, "").replace(/[^A-Za-z0-9_-]+/g, "-"));
+  d3.select("#data-import").style("display", null);
+  d3.select("#data-import-mapping").style("display", null);
+  updateDataImportPreview();
+}
+
+function getImportMapping(): ColumnMapping {
+  let labels = [+d3.select("#data-import-label").property("value")];
+  let label2 = +d3.select("#data-import-label2").property("value");
+  if (label2 >= 0) {
+    labels.push(label2);
+  }
+  return {
+    x: +d3.select("#data-import-x").property("value"),
+    y: +d3.select("#data-import-y").property("value"),
+    labels
+  };
+}
+
+/**
+ * Valida los datos con las columnas elegidas y dibuja cómo quedarían.
+ *
+ * @return El conjunto de datos, o null si no es válido.
+ */
+function updateDataImportPreview(): CustomDataset {
+  let canvas = d3.select("#data-import-preview").node() as HTMLCanvasElement;
+  canvas.getContext("2d").clearRect(0, 0, canvas.width, canvas.height);
+  let summary = "";
+  let dataset: CustomDataset = null;
+  try {
+    dataset = buildDataset(d3.select("#data-import-name").property("value"),
+        importTable, getImportMapping(), xDomain);
+    let isMultiClass = dataset.problem === Problem.MULTICLASS;
+    drawPoints(canvas, dataset.points, isMultiClass);
+    let numTargets = getLabels(dataset.points[0]).length;
+    summary = `${dataset.points.length} points, ` +
+        (dataset.problem === Problem.REGRESSION ?
+            `regression with ${numTargets} target` +
+                (numTargets > 1 ? "s" : "") :
+            `${isMultiClass ? dataset.numClasses : 2} classes`);
+    showDataImportError(null);
+  } catch (e) {
+    showDataImportError(e.message);
+  }
+  d3.select("#data-import-summary").text(summary);
+  d3.select("#data-import-add").property("disabled", dataset == null);
+  return dataset;
+}
+
+function showDataImportError(message: string) {
+  d3.select("#data-import-error")
+    .style("display", message != null ? null : "none")
+    .text(message);
+}
+
+function closeDataImport() {
+  importTable = null;
+  d3.select("#data-import").style("display", "none");
+}
+
+/**
+ * Guarda el conjunto importado en el navegador y lo elige, cambiando al
+ * problema que le corresponde.
+ */
+function addImportedDataset() {
+  let dataset = updateDataImportPreview();
+  if (dataset == null) {
+    return;
+  }
+  try {
+    saveCustomDataset(dataset);
+  } catch (e) {
+    showDataImportError(e.message);
+    return;
+  }
+  registerCustomDataset(dataset);
+  closeDataImport();
+  state.problem = dataset.problem;
+  state[getDatasetProp(dataset.problem)] =
+      getDatasetRegistry(dataset.problem)[getCustomDatasetKey(dataset)];
+  updateCustomNumClasses();
+  d3.select("#problem").property("value",
+      getKeyFromValue(problems, state.problem));
+  updateLossOptions();
+  bindDatasetThumbnails();
+  drawDatasetThumbnails();
+  generateData();
+  parametersChanged = true;
+  reset();
+}
+
+function updateLossOptions() {
+  let validLosses = getValidLosses(state.problem);
+  if (validLosses.indexOf(getKeyFromValue(losses, state.loss)) === -1) {
+    state.loss = losses[validLosses[0]];
+  }
+  let lossDropdown = d3.select("#losses");
+  lossDropdown.selectAll("option").property("disabled", function() {
+    return validLosses.indexOf(this.value) === -1;
+  });
+  lossDropdown.property("value", getKeyFromValue(losses, state.loss));
+}
+
+function updateScheduleControls() {
+  let isConstant = state.lrSchedule === nn.LearningRateSchedules.CONSTANT;
+  let usesDecay = state.lrSchedule === nn.LearningRateSchedules.STEP ||
+      state.lrSchedule === nn.LearningRateSchedules.EXPONENTIAL;
+  d3.select("#lrPeriod").property("disabled", isConstant);
+  d3.select("#lrDecay").property("disabled", !usesDecay);
+  d3.select("#effective-rate").text(formatRate(getLearningRate()));
+}
+
+function updateSpeedLabel() {
+  d3.select("#speed-value").text(state.stepsPerSecond > 0 ?
+      `${state.stepsPerSecond} steps/s` : "max");
+}
+
+/** Las épocas por paso solo se usan si cada paso entrena varias épocas. */
+function updateLoopControls() {
+  d3.select("#epochsPerStep")
+      .property("disabled", state.loopMode !== LoopMode.EPOCHS);
+}
+
+/** Muestra la semilla de cada fuente de aleatoriedad. */
+function updateSeedControls() {
+  SEED_NAMES.forEach(name => {
+    d3.select(`#${name}`).property("value", state[name]);
+  });
+}
+
+/**
+ * Cambia una semilla y vuelve a empezar con ella. Solo se regeneran los
+ * puntos si la semilla es de los datos o de su división.
+ */
+function changeSeed(name: string, seed: string) {
+  state[name] = seed;
+  updateSeedControls();
+  if (name === "dataSeed" || name === "splitSeed") {
+    generateData();
   }
+  parametersChanged = true;
+  reset();
+}
+
+/**
+ * Elastic net usa sus propias tasas de L1 y L2 en lugar de la tasa de
+ * regularización.
+ */
+function updateRegularizationControls() {
+  let isElasticNet =
+      state.regularization === nn.RegularizationFunction.ELASTIC_NET;
+  d3.select("#regularRate").property("disabled", isElasticNet);
+  d3.select("#l1Rate").property("disabled", !isElasticNet);
+  d3.select("#l2Rate").property("disabled", !isElasticNet);
+}
+
+function formatRate(rate: number): string {
+  return String(+rate.toPrecision(3));
 }
 
 function updateBiasesUI(network: nn.Node[][]) {
@@ -373,6 +1178,14 @@ function updateBiasesUI(network: nn.Node[][]) {
   });
 }
 
+function updateDropoutUI(network: nn.Node[][]) {
+  nn.forEachNode(network, true, node => {
+    let isDropped = droppedNodeIds[node.id] === true;
+    d3.select(`#node${node.id}`).classed("dropped", isDropped);
+    d3.select(`#canvas-${node.id}`).classed("dropped", isDropped);
+  });
+}
+
 function updateWeightsUI(network: nn.Node[][], container) {
   for (let layerIdx = 1; layerIdx < network.length; layerIdx++) {
     let currentLayer = network[layerIdx];
@@ -455,9 +1268,7 @@ function drawNode(cx: number, cy: number, nodeId: string, isInput: boolean,
         height: BIAS_SIZE,
       }).on("mouseenter", function() {
         updateHoverCard(HoverType.BIAS, node, d3.mouse(container.node()));
-      }).on("mouseleave", function() {
-        updateHoverCard(null);
-      });
+      }).on("mouseleave", hideHoverCardSoon);
   }
 
   let div = d3.select("#network").insert("div", ":first-child")
@@ -474,27 +1285,33 @@ function drawNode(cx: number, cy: number, nodeId: string, isInput: boolean,
       selectedNodeId = nodeId;
       div.classed("hovered", true);
       nodeGroup.classed("hovered", true);
-      updateDecisionBoundary(network, false);
-      heatMap.updateBackground(boundary[nodeId], state.discretize);
+      updateMainHeatMap();
     })
     .on("mouseleave", function() {
       selectedNodeId = null;
       div.classed("hovered", false);
       nodeGroup.classed("hovered", false);
-      updateDecisionBoundary(network, false);
-      heatMap.updateBackground(boundary[nn.getOutputNode(network).id],
-          state.discretize);
+      updateMainHeatMap();
     });
-  if (isInput) {
-    div.on("click", function() {
+  div.on("click", function() {
+    if ((d3.event as MouseEvent).shiftKey) {
+      selectLinkNode(nodeId);
+    } else if (isInput) {
       state[nodeId] = !state[nodeId];
       parametersChanged = true;
       reset();
-    });
+    } else {
+      nn.setNodeFrozen(node, !node.isFrozen);
+      frozenParamsChanged();
+    }
+  });
+  if (isInput) {
     div.style("cursor", "pointer");
   }
   if (isInput) {
     div.classed(activeOrNotClass, true);
+  } else {
+    div.classed("frozen", node.isFrozen);
   }
   let nodeHeatMap = new HeatMap(RECT_SIZE, DENSITY / 10, xDomain,
       xDomain, div, {noSvg: true});
@@ -507,6 +1324,7 @@ function drawNetwork(network: nn.Node[][]): void {
   svg.select("g.core").remove();
   d3.select("#network").selectAll("div.canvas").remove();
   d3.select("#network").selectAll("div.plus-minus-neurons").remove();
+  linkSourceId = null;
 
   let padding = 3;
   let co = d3.select(".column.output").node() as HTMLDivElement;
@@ -589,14 +1407,16 @@ function drawNetwork(network: nn.Node[][]): void {
   }
 
   cx = width + RECT_SIZE / 2;
-  let node = network[numLayers - 1][0];
-  let cy = nodeIndexScale(0) + RECT_SIZE / 2;
-  node2coord[node.id] = {cx, cy};
-  for (let i = 0; i < node.inputLinks.length; i++) {
-    let link = node.inputLinks[i];
-    drawLink(link, node2coord, network, container, i === 0, i,
-        node.inputLinks.length);
-  }
+  let outputLayer = network[numLayers - 1];
+  outputLayer.forEach((node, k) => {
+    let cy = nodeIndexScale(0) + (k + 0.5) * RECT_SIZE / outputLayer.length;
+    node2coord[node.id] = {cx, cy};
+    for (let i = 0; i < node.inputLinks.length; i++) {
+      let link = node.inputLinks[i];
+      drawLink(link, node2coord, network, container, i === 0, i,
+          node.inputLinks.length);
+    }
+  });
   svg.attr("height", maxY);
 
   let height = Math.max(
@@ -649,15 +1469,103 @@ function addPlusMinusControl(x: number, layerIdx: number) {
       .attr("class", "material-icons")
       .text("remove");
 
+  let freezeButton = firstRow.append("button")
+      .attr("class", "ui-freeze mdl-button mdl-js-button mdl-button--icon")
+      .attr("id", `freeze-layer-${layerIdx}`)
+      .attr("title", "Freeze or unfreeze the whole layer")
+      .on("click", () => {
+        let frozen = !isLayerFrozen(network[layerIdx]);
+        network[layerIdx].forEach(node => nn.setNodeFrozen(node, frozen));
+        frozenParamsChanged();
+      })
+    .append("i")
+      .attr("class", "material-icons")
+      .text(isLayerFrozen(network[layerIdx]) ? "lock" : "lock_open");
+  hideIfHiddenProp(freezeButton, "freeze");
+
   let suffix = state.networkShape[i] > 1 ? "s" : "";
   div.append("div").text(
     state.networkShape[i] + " neuron" + suffix
   );
+
+  let activationRow = div.append("div")
+    .attr("class", "ui-layerActivation layer-activation");
+  hideIfHiddenProp(activationRow, "layerActivation");
+  let activationSelect = activationRow.append("select")
+      .on("change", function() {
+        state.layerActivations[i] = this.value;
+        parametersChanged = true;
+        reset();
+      });
+  d3.select("#activations").selectAll("option").each(function() {
+    let option = this as HTMLOptionElement;
+    activationSelect.append("option")
+      .attr("value", option.value)
+      .text(option.text);
+  });
+  activationSelect.property("value",
+      getKeyFromValue(activations, getLayerActivations()[i]));
+
+  let dropoutRow = div.append("div").attr("class", "ui-dropout dropout");
+  hideIfHiddenProp(dropoutRow, "dropout");
+  dropoutRow.append("span").text("Dropout ");
+  let dropoutSelect = dropoutRow.append("select")
+      .on("change", function() {
+        state.dropoutRates[i] = +this.value;
+        state.serialize();
+        userHasInteracted();
+        parametersChanged = true;
+        nn.setDropoutRates(network, state.dropoutRates);
+      });
+  [0, 0.1, 0.2, 0.3, 0.5].forEach(rate => {
+    dropoutSelect.append("option")
+      .attr("value", rate)
+      .text(rate * 100 + "%");
+  });
+  dropoutSelect.property("value", state.dropoutRates[i] || 0);
+
+  let regRow = div.append("div")
+    .attr("class", "ui-layerRegularization layer-regularization");
+  hideIfHiddenProp(regRow, "layerRegularization");
+  regRow.append("span").text("Reg. ");
+  let regSelect = regRow.append("select")
+      .attr("title", "Factor of the regularization rates in this layer")
+      .on("change", function() {
+        state.layerRegRates[i] = +this.value;
+        // Las capas anteriores sin factor usan 1.
+        for (let j = 0; j < i; j++) {
+          if (state.layerRegRates[j] == null) {
+            state.layerRegRates[j] = 1;
+          }
+        }
+        state.serialize();
+        userHasInteracted();
+        parametersChanged = true;
+      });
+  [0, 0.5, 1, 2, 5, 10].forEach(rate => {
+    regSelect.append("option")
+      .attr("value", rate)
+      .text("×" + rate);
+  });
+  regSelect.property("value",
+      state.layerRegRates[i] != null ? state.layerRegRates[i] : 1);
+}
+
+/**
+ * Oculta el control si el usuario ocultó la propiedad. drawNetwork vuelve a
+ * crear los controles de cada capa en cada reinicio, después de que
+ * hideControls ya se ejecutó.
+ */
+function hideIfHiddenProp(control, prop: string) {
+  if (state.getHiddenProps().indexOf(prop) !== -1) {
+    control.style("display", "none");
+  }
 }
 
 function updateHoverCard(type: HoverType, nodeOrLink?: nn.Node | nn.Link,
     coordinates?: [number, number]) {
   let hovercard = d3.select("#hovercard");
+  window.clearTimeout(hoverCardTimer);
   if (type == null) {
     hovercard.style("display", "none");
     d3.select("#svg").on("click", null);
@@ -674,7 +1582,7 @@ function updateHoverCard(type: HoverType, nodeOrLink?: nn.Node | nn.Link,
         } else {
           (nodeOrLink as nn.Node).bias = +this.value;
         }
-        updateUI();
+        postToTrainer({type: "params", params: getParams(network)});
       }
     });
     input.on("keypress", () => {
@@ -694,6 +1602,20 @@ function updateHoverCard(type: HoverType, nodeOrLink?: nn.Node | nn.Link,
     "display": "block"
   });
   hovercard.select(".type").text(name);
+  hovercard.select(".link-hint")
+    .style("display", type === HoverType.WEIGHT ? null : "none");
+  // El candado de un sesgo congela también la normalización por lotes del
+  // nodo, pero no sus enlaces de entrada.
+  let param = nodeOrLink as nn.Node | nn.Link;
+  hovercard.select(".lock-toggle").on("click", () => {
+    param.isFrozen = !param.isFrozen;
+    frozenParamsChanged();
+    updateHoverCard(type, nodeOrLink, coordinates);
+  });
+  hovercard.select(".lock-toggle i")
+    .text(param.isFrozen ? "lock" : "lock_open");
+  hovercard.select(".lock-label")
+    .text(param.isFrozen ? "Frozen" : "Trainable");
   hovercard.select(".value")
     .style("display", null)
     .text(value.toPrecision(2));
@@ -702,6 +1624,82 @@ function updateHoverCard(type: HoverType, nodeOrLink?: nn.Node | nn.Link,
     .style("display", "none");
 }
 
+function hideHoverCardSoon() {
+  hoverCardTimer =
+      window.setTimeout(() => updateHoverCard(null), HOVERCARD_HIDE_MS);
+}
+
+/**
+ * Envía al worker los parámetros congelados y actualiza su estilo en la
+ * red: los nodos, los enlaces y el candado de cada capa.
+ */
+function frozenParamsChanged() {
+  storeFrozenParams(network);
+  postToTrainer({type: "params", params: getParams(network)});
+  updateFrozenUI(network);
+}
+
+/** Guarda en el estado qué nodos y enlaces están congelados. */
+function storeFrozenParams(network: nn.Node[][]) {
+  state.frozenNodes = [];
+  state.frozenLinks = [];
+  nn.forEachNode(network, true, node => {
+    if (node.isFrozen) {
+      state.frozenNodes.push(node.id);
+    }
+    node.inputLinks.forEach(link => {
+      if (link.isFrozen) {
+        state.frozenLinks.push(`${link.source.id}-${link.dest.id}`);
+      }
+    });
+  });
+  state.serialize();
+}
+
+/**
+ * Vuelve a congelar los nodos y enlaces guardados en el estado. Olvida los
+ * que ya no están en la red.
+ */
+function applyFrozenParams(network: nn.Node[][]) {
+  let nodeIds: {[id: string]: boolean} = {};
+  let linkIds: {[id: string]: boolean} = {};
+  nn.forEachNode(network, true, node => {
+    if (state.frozenNodes.indexOf(node.id) !== -1) {
+      node.isFrozen = true;
+      nodeIds[node.id] = true;
+    }
+    node.inputLinks.forEach(link => {
+      let linkId = `${link.source.id}-${link.dest.id}`;
+      if (state.frozenLinks.indexOf(linkId) !== -1) {
+        link.isFrozen = true;
+        linkIds[linkId] = true;
+      }
+    });
+  });
+  state.frozenNodes = state.frozenNodes.filter(id => nodeIds[id]);
+  state.frozenLinks = state.frozenLinks.filter(id => linkIds[id]);
+}
+
+function updateFrozenUI(network: nn.Node[][]) {
+  nn.forEachNode(network, true, node => {
+    d3.select(`#canvas-${node.id}`).classed("frozen", node.isFrozen);
+    node.inputLinks.forEach(link => {
+      d3.select(`#link${link.source.id}-${link.dest.id}`)
+        .classed("frozen", link.isFrozen);
+    });
+  });
+  for (let layerIdx = 1; layerIdx < network.length - 1; layerIdx++) {
+    d3.select(`#freeze-layer-${layerIdx} i`)
+      .text(isLayerFrozen(network[layerIdx]) ? "lock" : "lock_open");
+  }
+}
+
+/** True si todos los nodos de la capa y sus enlaces están congelados. */
+function isLayerFrozen(layer: nn.Node[]): boolean {
+  return layer.every(node => node.isFrozen &&
+      node.inputLinks.every(link => link.isFrozen));
+}
+
 function drawLink(
     input: nn.Link, node2coord: {[id: string]: {cx: number, cy: number}},
     network: nn.Node[][], container,
@@ -720,87 +1718,396 @@ function drawLink(
     }
   };
   let diagonal = d3.svg.diagonal().projection(d => [d.y, d.x]);
+  let span = nn.getLayerIndex(network, input.dest) -
+      nn.getLayerIndex(network, input.source);
+  let path = span > 1 ? skipLinkPath(datum, span) : diagonal(datum, 0);
   line.attr({
     "marker-start": "url(#markerArrow)",
-    class: "link",
+    class: span > 1 ? "link skip" : "link",
     id: "link" + input.source.id + "-" + input.dest.id,
-    d: diagonal(datum, 0)
+    d: path
   });
+  line.classed("frozen", input.isFrozen);
 
   container.append("path")
-    .attr("d", diagonal(datum, 0))
+    .attr("d", path)
     .attr("class", "link-hover")
     .on("mouseenter", function() {
       updateHoverCard(HoverType.WEIGHT, input, d3.mouse(this));
-    }).on("mouseleave", function() {
-      updateHoverCard(null);
+    }).on("mouseleave", hideHoverCardSoon)
+    .on("click", () => {
+      if ((d3.event as MouseEvent).shiftKey) {
+        // Evita que el clic abra la edición del peso borrado.
+        (d3.event as MouseEvent).stopPropagation();
+        updateHoverCard(null);
+        deleteLink(input);
+      }
     });
   return line;
 }
 
-function updateDecisionBoundary(network: nn.Node[][], firstTime: boolean) {
-  if (firstTime) {
-    boundary = {};
-    nn.forEachNode(network, true, node => {
-      boundary[node.id] = new Array(DENSITY);
-    });
-    for (let nodeId in INPUTS) {
-      boundary[nodeId] = new Array(DENSITY);
+/**
+ * Curva de un enlace que salta capas. Se arquea hacia abajo en proporción a
+ * las capas que salta para no confundirse con los enlaces entre capas
+ * contiguas.
+ */
+function skipLinkPath(datum: {source: {x: number, y: number},
+    target: {x: number, y: number}}, span: number): string {
+  // Como en la diagonal, x es la coordenada vertical e y la horizontal.
+  let source = datum.source;
+  let target = datum.target;
+  let third = (target.y - source.y) / 3;
+  let bend = SKIP_LINK_BEND * (span - 1);
+  return `M${source.y},${source.x}` +
+      `C${source.y + third},${source.x + bend}` +
+      ` ${target.y - third},${target.x + bend}` +
+      ` ${target.y},${target.x}`;
+}
+
+/** Quita el enlace y recuerda el cambio en el estado. */
+function deleteLink(link: nn.Link) {
+  let index = state.addedLinks.indexOf(link.id);
+  if (index !== -1) {
+    state.addedLinks.splice(index, 1);
+  } else {
+    state.removedLinks.push(link.id);
+  }
+  parametersChanged = true;
+  reset();
+}
+
+/**
+ * Marca el nodo como extremo de un nuevo enlace o, si ya había otro
+ * marcado, enlaza ambos desde el que está en la capa anterior. Volver a
+ * elegir el mismo nodo, o uno de la misma capa, cancela el enlace.
+ */
+function selectLinkNode(nodeId: string) {
+  if (linkSourceId == null) {
+    linkSourceId = nodeId;
+    d3.select(`#canvas-${nodeId}`).classed("link-source", true);
+    return;
+  }
+  let nodes: {[id: string]: nn.Node} = {};
+  nn.forEachNode(network, false, node => nodes[node.id] = node);
+  let first = nodes[linkSourceId];
+  let second = nodes[nodeId];
+  d3.select(`#canvas-${linkSourceId}`).classed("link-source", false);
+  linkSourceId = null;
+  if (first == null || second == null) {
+    return;
+  }
+  let firstLayer = nn.getLayerIndex(network, first);
+  let secondLayer = nn.getLayerIndex(network, second);
+  if (firstLayer === secondLayer) {
+    return;
+  }
+  let source = firstLayer < secondLayer ? first : second;
+  let dest = firstLayer < secondLayer ? second : first;
+  if (dest.inputLinks.some(link => link.source === source)) {
+    return;
+  }
+  let linkId = `${source.id}-${dest.id}`;
+  let index = state.removedLinks.indexOf(linkId);
+  if (index !== -1) {
+    state.removedLinks.splice(index, 1);
+  } else {
+    state.addedLinks.push(linkId);
+  }
+  parametersChanged = true;
+  reset();
+}
+
+/**
+ * Agrega los enlaces entre capas no contiguas que indica
+ * state.skipConnections.
+ */
+function addSkipConnections(network: nn.Node[][], random: RandomFunction) {
+  let numLayers = network.length;
+  for (let toLayer = 2; toLayer < numLayers; toLayer++) {
+    for (let fromLayer = 0; fromLayer < toLayer - 1; fromLayer++) {
+      let isLinked = state.skipConnections === SkipConnections.DENSE ||
+          (state.skipConnections === SkipConnections.SKIP_ONE &&
+              fromLayer === toLayer - 2) ||
+          (state.skipConnections === SkipConnections.INPUT_OUTPUT &&
+              fromLayer === 0 && toLayer === numLayers - 1);
+      if (isLinked) {
+        nn.connectLayers(network, fromLayer, toLayer, state.regularization,
+            state.initializer, random);
+      }
     }
   }
+}
+
+/**
+ * Aplica los enlaces que el usuario agregó o quitó a mano. Olvida los que
+ * ya no tienen efecto en la red, p. ej. porque se quitó uno de sus nodos.
+ */
+function applyLinkEdits(network: nn.Node[][], random: RandomFunction) {
+  let nodes: {[id: string]: nn.Node} = {};
+  nn.forEachNode(network, false, node => nodes[node.id] = node);
+  let findLink = (linkId: string) => {
+    let [sourceId, destId] = linkId.split("-");
+    let dest = nodes[destId];
+    let links = dest != null ?
+        dest.inputLinks.filter(link => link.source.id === sourceId) : [];
+    return links.length > 0 ? links[0] : null;
+  };
+  state.removedLinks = state.removedLinks.filter(linkId => {
+    let link = findLink(linkId);
+    if (link != null) {
+      nn.removeLink(link);
+    }
+    return link != null;
+  });
+  state.addedLinks = state.addedLinks.filter(linkId => {
+    let [sourceId, destId] = linkId.split("-");
+    let source = nodes[sourceId];
+    let dest = nodes[destId];
+    if (source == null || dest == null || findLink(linkId) != null) {
+      return false;
+    }
+    let destLayer = nn.getLayerIndex(network, dest);
+    if (nn.getLayerIndex(network, source) >= destLayer) {
+      return false;
+    }
+    nn.addLink(network, source, dest, state.regularization,
+        state.initializer.weight(dest.inputLinks.length + 1,
+            network[destLayer].length, random));
+    return true;
+  });
+}
+
+/**
+ * Calcula las entradas de la red en cada punto de la cuadrícula y el valor
+ * de cada característica de entrada. Las salidas de los demás nodos llegan
+ * en las instantáneas del worker.
+ */
+function updateInputBoundaries() {
   let xScale = d3.scale.linear().domain([0, DENSITY - 1]).range(xDomain);
   let yScale = d3.scale.linear().domain([DENSITY - 1, 0]).range(xDomain);
-
-  let i = 0, j = 0;
-  for (i = 0; i < DENSITY; i++) {
-    if (firstTime) {
-      nn.forEachNode(network, true, node => {
-        boundary[node.id][i] = new Array(DENSITY);
-      });
-      for (let nodeId in INPUTS) {
-        boundary[nodeId][i] = new Array(DENSITY);
-      }
+  boundary = {};
+  boundaryGrid = [];
+  for (let nodeId in INPUTS) {
+    boundary[nodeId] = new Array(DENSITY);
+  }
+  for (let i = 0; i < DENSITY; i++) {
+    for (let nodeId in INPUTS) {
+      boundary[nodeId][i] = new Array(DENSITY);
     }
-    for (j = 0; j < DENSITY; j++) {
+    for (let j = 0; j < DENSITY; j++) {
       let x = xScale(i);
       let y = yScale(j);
-      let input = constructInput(x, y);
-      nn.forwardProp(network, input);
-      nn.forEachNode(network, true, node => {
-        boundary[node.id][i][j] = node.output;
-      });
-      if (firstTime) {
-        for (let nodeId in INPUTS) {
-          boundary[nodeId][i][j] = INPUTS[nodeId].f(x, y);
-        }
+      boundaryGrid.push(constructInput(x, y));
+      for (let nodeId in INPUTS) {
+        boundary[nodeId][i][j] = INPUTS[nodeId].f(x, y);
       }
     }
   }
 }
 
-function getLoss(network: nn.Node[][], dataPoints: Example2D[]): number {
-  let loss = 0;
-  for (let i = 0; i < dataPoints.length; i++) {
-    let dataPoint = dataPoints[i];
-    let input = constructInput(dataPoint.x, dataPoint.y);
-    let output = nn.forwardProp(network, input);
-    loss += nn.Errors.SQUARE.error(output, dataPoint.label);
+/** Convierte los valores de la cuadrícula, fila a fila, en una matriz. */
+function toMatrix(values: Float64Array): number[][] {
+  let matrix: number[][] = new Array(DENSITY);
+  for (let i = 0; i < DENSITY; i++) {
+    matrix[i] = new Array(DENSITY);
+    for (let j = 0; j < DENSITY; j++) {
+      matrix[i][j] = values[i * DENSITY + j];
+    }
   }
-  return loss / dataPoints.length;
+  return matrix;
 }
 
-function updateUI(firstStep = false) {
-  updateWeightsUI(network, d3.select("g.core"));
-  updateBiasesUI(network);
-  updateDecisionBoundary(network, firstStep);
+function updateMainHeatMap() {
+  // Tras un reinicio, las salidas de los nodos llegan con la primera
+  // instantánea de la nueva red.
+  if (boundary[nn.getOutputNode(network).id] == null) {
+    return;
+  }
+  if (selectedNodeId == null && state.problem === Problem.MULTICLASS) {
+    let probs = nn.getOutputNodes(network).map(node => boundary[node.id]);
+    heatMap.updateClassBackground(probs, state.discretize);
+    return;
+  }
   let selectedId = selectedNodeId != null ?
       selectedNodeId : nn.getOutputNode(network).id;
   heatMap.updateBackground(boundary[selectedId], state.discretize);
+}
+
+/** Índice de la salida seleccionada, o -1 si no hay ninguna. */
+function getSelectedOutputIndex(): number {
+  if (network == null || selectedNodeId == null) {
+    return -1;
+  }
+  let ids = nn.getOutputNodes(network).map(node => node.id);
+  return ids.indexOf(selectedNodeId);
+}
+
+/**
+ * Dibuja los puntos sobre el mapa de calor principal. En regresión con
+ * varios objetivos, los colorea según el objetivo de la salida seleccionada.
+ */
+function updateHeatMapPoints() {
+  let outputIdx = getSelectedOutputIndex();
+  let getLabel = state.problem === Problem.REGRESSION && outputIdx > 0 ?
+      (point: Example2D) => getLabels(point)[outputIdx] : null;
+  heatMap.updatePoints(trainData, getLabel);
+  heatMap.updateTestPoints(state.showTestData ? testData : [], getLabel);
+}
+
+/**
+ * Las ediciones del mapa de calor. Los puntos nuevos van a los datos de
+ * entrenamiento; los de prueba se pueden mover y borrar si están visibles.
+ */
+let pointEditHandlers: PointEditHandlers = {
+  add(x: number, y: number, isOtherClass: boolean) {
+    let label = isOtherClass ? getOtherLabel(editLabel) : editLabel;
+    let point: Example2D = {x, y, label};
+    let numOutputs = nn.getOutputNodes(network).length;
+    if (state.problem === Problem.REGRESSION && numOutputs > 1) {
+      point.labels = d3.range(numOutputs).map(() => label);
+    }
+    editPoints(() => trainData.push(point));
+  },
+  move(point: Example2D, x: number, y: number) {
+    editPoints(() => {
+      point.x = x;
+      point.y = y;
+    });
+  },
+  remove(point: Example2D) {
+    editPoints(() => {
+      trainData = trainData.filter(other => other !== point);
+      testData = testData.filter(other => other !== point);
+    });
+  }
+};
+
+/**
+ * La otra clase para shift+clic: la opuesta en clasificación binaria y en
+ * regresión, y la siguiente en clasificación multiclase.
+ */
+function getOtherLabel(label: number): number {
+  return state.problem === Problem.MULTICLASS ?
+      (label + 1) % state.numClasses : -label;
+}
+
+/**
+ * Aplica una edición a los datos, guardando antes una copia para poder
+ * deshacerla, y actualiza los puntos y la pérdida.
+ */
+function editPoints(edit: () => void) {
+  userHasInteracted();
+  editHistory.push({
+    train: trainData.map(copyPoint),
+    test: testData.map(copyPoint)
+  });
+  if (editHistory.length > MAX_UNDO) {
+    editHistory.shift();
+  }
+  edit();
+  onPointsEdited();
+}
+
+function undoPointEdit() {
+  let previous = editHistory.pop();
+  if (previous == null) {
+    return;
+  }
+  trainData = previous.train;
+  testData = previous.test;
+  onPointsEdited();
+}
+
+function onPointsEdited() {
+  updateHeatMapPoints();
+  updatePointEditorControls();
+  // El worker responde con una instantánea con las pérdidas nuevas.
+  sendData();
+}
+
+/**
+ * Dibuja una muestra por etiqueta para elegir la de los puntos nuevos y
+ * habilita los botones según los datos.
+ */
+function updatePointEditorControls() {
+  let labels = state.problem === Problem.MULTICLASS ?
+      d3.range(state.numClasses) : [-1, 1];
+  if (labels.indexOf(editLabel) === -1) {
+    editLabel = labels[labels.length - 1];
+  }
+  let swatches = d3.select("#edit-labels").selectAll("button")
+    .data(labels);
+  swatches.enter().append("button")
+    .attr("class", "edit-label");
+  swatches.exit().remove();
+  swatches
+    .attr("title", label => state.problem === Problem.MULTICLASS ?
+        `Class ${label + 1}` : (label > 0 ? "Blue" : "Orange"))
+    .style("background-color", label =>
+        state.problem === Problem.MULTICLASS ?
+            CLASS_COLORS[label] : colorScale(label))
+    .classed("selected", label => label === editLabel)
+    .on("click", label => {
+      editLabel = label;
+      updatePointEditorControls();
+    });
+  d3.select("#undo-edit-button")
+    .property("disabled", editHistory.length === 0);
+  d3.select("#clear-points-button")
+    .property("disabled", trainData.length + testData.length === 0);
+}
+
+/**
+ * Dibuja un mapa de calor pequeño por salida, debajo del principal, si la
+ * red tiene más de una. Pasar el ratón sobre uno lo muestra en el principal.
+ */
+function drawOutputHeatMaps(network: nn.Node[][]) {
+  let container = d3.select("#output-heatmaps");
+  container.selectAll("div.output-heatmap").remove();
+  let outputs = nn.getOutputNodes(network);
+  if (outputs.length < 2) {
+    return;
+  }
+  let name = state.problem === Problem.MULTICLASS ? "Class" : "Output";
+  outputs.forEach((node, k) => {
+    let item = container.append("div").attr("class", "output-heatmap");
+    let div = item.append("div")
+      .attr({
+        "id": `canvas-${node.id}`,
+        "class": "canvas"
+      })
+      .on("mouseenter", () => {
+        selectedNodeId = node.id;
+        div.classed("hovered", true);
+        updateMainHeatMap();
+        updateHeatMapPoints();
+      })
+      .on("mouseleave", () => {
+        selectedNodeId = null;
+        div.classed("hovered", false);
+        updateMainHeatMap();
+        updateHeatMapPoints();
+      });
+    let nodeHeatMap = new HeatMap(RECT_SIZE, DENSITY / 10, xDomain,
+        xDomain, div, {noSvg: true});
+    div.datum({heatmap: nodeHeatMap, id: node.id});
+    item.append("span").text(`${name} ${k + 1}`);
+  });
+}
+
+function updateUI() {
+  updateWeightsUI(network, d3.select("g.core"));
+  updateBiasesUI(network);
+  updateDropoutUI(network);
+  updateFrozenUI(network);
+  updateMainHeatMap();
 
-  d3.select("#network").selectAll("div.canvas")
+  d3.selectAll("#network div.canvas, #output-heatmaps div.canvas")
       .each(function(data: {heatmap: HeatMap, id: string}) {
-    data.heatmap.updateBackground(reduceMatrix(boundary[data.id], 10),
-        state.discretize);
+    if (boundary[data.id] != null) {
+      data.heatmap.updateBackground(reduceMatrix(boundary[data.id], 10),
+          state.discretize);
+    }
   });
 
   function zeroPad(n: number): string {
@@ -818,8 +2125,21 @@ function updateUI(firstStep = false) {
 
   d3.select("#loss-train").text(humanReadable(lossTrain));
   d3.select("#loss-test").text(humanReadable(lossTest));
+  d3.select("#sparsity").text(`${(getSparsity(network) * 100).toFixed(1)}%`);
+  let pruneLossTrain = "";
+  let pruneLossTest = "";
+  if (lastPrune != null) {
+    pruneLossTrain = `pruned ${humanReadable(lastPrune.lossTrainBefore)} → ` +
+        humanReadable(lastPrune.lossTrainAfter);
+    pruneLossTest = `pruned ${humanReadable(lastPrune.lossTestBefore)} → ` +
+        humanReadable(lastPrune.lossTestAfter);
+  }
+  d3.select("#prune-loss-train").text(pruneLossTrain);
+  d3.select("#prune-loss-test").text(pruneLossTest);
   d3.select("#iter-number").text(addCommas(zeroPad(iter)));
-  lineChart.addDataPoint([lossTrain, lossTest]);
+  d3.select("#update-number").text(addCommas(zeroPad(updates)));
+  let learningRate = getLearningRate();
+  d3.select("#effective-rate").text(formatRate(learningRate));
 }
 
 function constructInputIds(): string[] {
@@ -832,6 +2152,60 @@ function constructInputIds(): string[] {
   return result;
 }
 
+/**
+ * Devuelve la activación de cada capa oculta: la elegida para esa capa o,
+ * si no hay ninguna, la activación general.
+ */
+function getLayerActivations(): nn.ActivationFunction[] {
+  return state.networkShape.map((numNodes, i) => {
+    let key = state.layerActivations[i];
+    return key in activations ? activations[key] : state.activation;
+  });
+}
+
+function getOutputActivation(): nn.ActivationFunction {
+  return (state.problem === Problem.REGRESSION) ?
+      nn.Activations.LINEAR : (state.problem === Problem.MULTICLASS) ?
+      nn.Activations.SOFTMAX : nn.Activations.TANH;
+}
+
+/**
+ * Una salida por clase en clasificación multiclase y una por objetivo en
+ * regresión.
+ */
+function getNumOutputs(): number {
+  if (state.problem === Problem.MULTICLASS) {
+    return state.numClasses;
+  }
+  if (state.problem === Problem.REGRESSION && trainData.length > 0) {
+    return getLabels(trainData[0]).length;
+  }
+  return 1;
+}
+
+function getErrorFunction(): nn.ErrorFunction {
+  return state.problem === Problem.MULTICLASS ?
+      nn.Errors.SOFTMAX_CROSS_ENTROPY : state.loss;
+}
+
+/** Devuelve el objetivo de cada nodo de salida para el punto dado. */
+function getTargets(point: Example2D): number[] {
+  if (state.problem !== Problem.MULTICLASS) {
+    return getLabels(point);
+  }
+  let targets: number[] = [];
+  for (let k = 0; k < state.numClasses; k++) {
+    targets.push(point.label === k ? 1 : 0);
+  }
+  return targets;
+}
+
+/** Tasa de aprendizaje de la próxima época según el programa elegido. */
+function getLearningRate(): number {
+  return state.lrSchedule.rate(state.learningRate, iter, state.lrPeriod,
+      state.lrDecay);
+}
+
 function constructInput(x: number, y: number): number[] {
   let input: number[] = [];
   for (let inputName in INPUTS) {
@@ -842,19 +2216,146 @@ function constructInput(x: number, y: number): number[] {
   return input;
 }
 
-function oneStep(): void {
-  iter++;
-  trainData.forEach((point, i) => {
-    let input = constructInput(point.x, point.y);
-    nn.forwardProp(network, input);
-    nn.backProp(network, point.label, nn.Errors.SQUARE);
-    if ((i + 1) % state.batchSize === 0) {
-      nn.updateWeights(network, state.learningRate, state.regularizationRate);
-    }
+function postToTrainer(request: TrainerRequest, transfer?: any[]) {
+  trainer.postMessage(request, transfer);
+}
+
+/** Los hiperparámetros actuales, con las funciones por su nombre en nn. */
+function getTrainingConfig(): TrainingConfig {
+  return {
+    learningRate: state.learningRate,
+    lrSchedule: getRegistryKey(nn.LearningRateSchedules, state.lrSchedule),
+    lrPeriod: state.lrPeriod,
+    lrDecay: state.lrDecay,
+    optimizer: getRegistryKey(nn.Optimizers, state.optimizer),
+    loss: getRegistryKey(nn.Errors, getErrorFunction()),
+    regularizationRate: state.regularizationRate,
+    constraints: {
+      l1Rate: state.l1Rate,
+      l2Rate: state.l2Rate,
+      maxNorm: state.maxNorm,
+      weightDecay: state.weightDecay,
+      layerRates: state.layerRegRates
+    },
+    clipValue: state.clipValue,
+    clipNorm: state.clipNorm,
+    patience: state.patience,
+    minDelta: state.minDelta,
+    batchSize: state.batchSize,
+    dropoutRates: state.dropoutRates,
+    leakySlope: state.leakySlope,
+    loopMode: state.loopMode,
+    epochsPerStep: state.epochsPerStep,
+    stepsPerSecond: state.stepsPerSecond
+  };
+}
+
+/** Envía la configuración al worker si cambió desde el último envío. */
+function sendConfig() {
+  let config = getTrainingConfig();
+  let json = JSON.stringify(config);
+  if (json !== lastConfig) {
+    lastConfig = json;
+    postToTrainer({type: "config", config});
+  }
+}
+
+function getTrainingSet(points: Example2D[]): TrainingSet {
+  return {
+    inputs: points.map(point => constructInput(point.x, point.y)),
+    targets: points.map(getTargets)
+  };
+}
+
+function sendData() {
+  postToTrainer({
+    type: "data",
+    train: getTrainingSet(trainData),
+    test: getTrainingSet(testData)
   });
-  lossTrain = getLoss(network, trainData);
-  lossTest = getLoss(network, testData);
+}
+
+trainer.onmessage = (event: MessageEvent) => {
+  let snapshot: Snapshot = event.data;
+  if (snapshot.version !== networkVersion) {
+    return;
+  }
+  if (pendingSnapshot != null) {
+    // Conserva las pérdidas de las instantáneas que no se llegaron a dibujar.
+    snapshot.history = pendingSnapshot.history.concat(snapshot.history);
+    snapshot.diverged = snapshot.diverged || pendingSnapshot.diverged;
+  } else {
+    requestAnimationFrame(drawSnapshot);
+  }
+  pendingSnapshot = snapshot;
+};
+
+/** Dibuja la última instantánea recibida del worker. */
+function drawSnapshot() {
+  let snapshot = pendingSnapshot;
+  pendingSnapshot = null;
+  if (snapshot == null || snapshot.version !== networkVersion) {
+    return;
+  }
+  setParams(network, snapshot.params);
+  iter = snapshot.iter;
+  updates = snapshot.updates;
+  lossTrain = snapshot.lossTrain;
+  lossTest = snapshot.lossTest;
+  droppedNodeIds = snapshot.droppedNodeIds;
+  for (let nodeId in snapshot.boundary) {
+    boundary[nodeId] = toMatrix(snapshot.boundary[nodeId]);
+  }
+  if (snapshot.pruneResult != null) {
+    lastPrune = snapshot.pruneResult;
+  }
+  // Una pérdida NaN o infinita arruinaría la escala del gráfico; la
+  // divergencia ya se muestra con showDivergence.
+  lineChart.addDataPoints(snapshot.history
+      .filter(dataPoint => dataPoint.every(value => isFinite(value))));
+  lineChart.setMarker(snapshot.bestIter > 0 ? snapshot.bestIter : null);
+  showBestEpoch(snapshot);
   updateUI();
+  if (snapshot.diverged) {
+    showDivergence(snapshot.divergedLayer);
+  } else if (snapshot.pruneCyclesDone || snapshot.stoppedEarly) {
+    player.pause();
+  } else if (player.getIsPlaying()) {
+    sendConfig();
+  }
+}
+
+/**
+ * Muestra la época con la mejor pérdida de prueba, marcada en el gráfico,
+ * y si la parada temprana detuvo el entrenamiento.
+ */
+function showBestEpoch(snapshot: Snapshot) {
+  let text = "";
+  if (snapshot.stoppedEarly) {
+    text = `Stopped early at epoch ${snapshot.iter}. `;
+  }
+  if (snapshot.bestIter > 0) {
+    text += `Best test loss ${snapshot.bestLossTest.toFixed(3)} at ` +
+        `epoch ${snapshot.bestIter}.`;
+  }
+  d3.select("#best-epoch").text(text);
+}
+
+/**
+ * Pausa el entrenamiento y muestra dónde aparecieron los primeros valores no
+ * finitos. Con layerIdx = -1 los parámetros son finitos pero la pérdida no.
+ */
+function showDivergence(layerIdx: number) {
+  player.pause();
+  let where = layerIdx === -1 ? "the loss" :
+      layerIdx === network.length - 1 ? "the output layer" :
+      `hidden layer ${layerIdx}`;
+  d3.select("#divergence-banner")
+    .style("display", null)
+    .select(".message")
+    .text(`Training diverged at epoch ${iter}: ${where} reached NaN or ` +
+        "infinite values. Lower the learning rate or enable gradient " +
+        "clipping, then reset the network.");
 }
 
 export function getOutputWeights(network: nn.Node[][]): number[] {
@@ -872,9 +2373,145 @@ export function getOutputWeights(network: nn.Node[][]): number[] {
   return weights;
 }
 
-function reset(onStartup=false) {
+/** Descarga la red actual como un modelo JSON. */
+function exportModel() {
+  let json = JSON.stringify(saveModel(network), null, 2);
+  downloadFile("network.json", json, "application/json");
+}
+
+function downloadFile(filename: string, contents: string, type: string) {
+  let url = URL.createObjectURL(new Blob([contents], {type}));
+  let link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Carga un modelo guardado: ajusta las características, las capas y sus
+ * activaciones a las del modelo y reconstruye la red con sus parámetros,
+ * sin volver a entrenarla.
+ *
+ * @throws Error si el modelo no es válido o no sirve para el problema actual.
+ */
+function loadModel(text: string) {
+  let model = parseModel(text);
+  let spec = model.spec;
+  let shape = spec.shape;
+  let numOutputs = shape[shape.length - 1];
+  if (numOutputs !== getNumOutputs()) {
+    throw new Error(`The model has ${numOutputs} outputs but the current ` +
+        `problem needs ${getNumOutputs()}`);
+  }
+  let outputActivation = spec.activations[spec.activations.length - 1];
+  if (nn.Activations[outputActivation] !== getOutputActivation()) {
+    throw new Error(`The model's ${outputActivation} output does not match ` +
+        "the current problem");
+  }
+  let inputIds = Object.keys(INPUTS)
+      .filter(inputId => spec.inputIds.indexOf(inputId) !== -1);
+  if (inputIds.join() !== spec.inputIds.join()) {
+    throw new Error("The model's input ids must be available features, in " +
+        `the order ${Object.keys(INPUTS).join(", ")}`);
+  }
+  let networkShape = shape.slice(1, -1);
+  if (networkShape.length > 6 ||
+      networkShape.some(numNeurons => numNeurons > 8)) {
+    throw new Error("The model can have at most 6 hidden layers of 8 " +
+        "neurons");
+  }
+  let layerActivations = spec.activations.slice(0, -1).map(key => {
+    let activationKey = getKeyFromValue(activations, nn.Activations[key]);
+    if (activationKey == null) {
+      throw new Error(`The ${key} activation cannot be used in a hidden ` +
+          "layer");
+    }
+    return activationKey;
+  });
+
+  for (let inputId in INPUTS) {
+    state[inputId] = inputIds.indexOf(inputId) !== -1;
+  }
+  state.networkShape = networkShape;
+  state.numHiddenLayers = networkShape.length;
+  state.layerActivations = layerActivations;
+  state.dropoutRates = networkShape.map((n, i) => state.dropoutRates[i] || 0);
+  state.regularization = spec.regularization != null ?
+      nn.RegularizationFunction[spec.regularization] : null;
+  d3.select("#regularizations").property("value",
+      getKeyFromValue(regularizations, state.regularization));
+  state.batchNorm = spec.batchNorm;
+  d3.select("#batch-norm").property("checked", state.batchNorm);
+  d3.select("label[for='batch-norm']").classed("is-checked", state.batchNorm);
+  state.skipConnections = SkipConnections.NONE;
+  d3.select("#skip-connections").property("value",
+      getKeyFromValue(skipConnections, state.skipConnections));
+  setLinkEdits(buildFromSpec(spec, model.params));
+  parametersChanged = true;
+  reset(false, model.params);
+}
+
+/**
+ * Guarda en el estado los enlaces de la red como cambios sobre una red
+ * cuyas capas solo se enlazan, totalmente, con la siguiente.
+ */
+function setLinkEdits(network: nn.Node[][]) {
+  state.addedLinks = [];
+  state.removedLinks = [];
+  for (let layerIdx = 1; layerIdx < network.length; layerIdx++) {
+    network[layerIdx].forEach(node => {
+      network[layerIdx - 1].forEach(prevNode => {
+        if (!node.inputLinks.some(link => link.source === prevNode)) {
+          state.removedLinks.push(`${prevNode.id}-${node.id}`);
+        }
+      });
+      node.inputLinks.forEach(link => {
+        if (nn.getLayerIndex(network, link.source) < layerIdx - 1) {
+          state.addedLinks.push(link.id);
+        }
+      });
+    });
+  }
+}
+
+/**
+ * Muestra una tabla con el resultado de la comprobación de gradientes. Los
+ * errores relativos mayores que GRADIENT_TOLERANCE se marcan como fallidos.
+ */
+function showGradientCheck(headers: string[], rows: (string|number)[][]) {
+  let table = d3.select("#gradient-check-results").style("display", null);
+  table.selectAll("*").remove();
+  let header = table.append("tr");
+  headers.forEach(text => header.append("th").text(text));
+  rows.forEach(row => {
+    let tr = table.append("tr");
+    row.forEach(value => {
+      let isError = typeof value === "number";
+      tr.append("td")
+        .classed("failed", isError && value > GRADIENT_TOLERANCE)
+        .text(isError ? (value as number).toExponential(1) : value);
+    });
+  });
+}
+
+/** Muestra el error de la última importación, o lo oculta si es nulo. */
+function showModelError(message: string) {
+  d3.select("#model-error")
+    .style("display", message != null ? null : "none")
+    .text(message);
+}
+
+/**
+ * Reconstruye la red a partir del estado y la envía al worker.
+ *
+ * @param params Parámetros de una red guardada con la misma estructura. Si
+ *     se omiten, la red se inicializa con el esquema elegido.
+ */
+function reset(onStartup = false, params?: NetworkParams) {
   lineChart.reset();
-  state.serialize();
   if (!onStartup) {
     userHasInteracted();
   }
@@ -885,16 +2522,48 @@ function reset(onStartup=false) {
   d3.select("#num-layers").text(state.numHiddenLayers);
 
   iter = 0;
+  updates = 0;
+  d3.select("#divergence-banner").style("display", "none");
   let numInputs = constructInput(0 , 0).length;
-  let shape = [numInputs].concat(state.networkShape).concat([1]);
-  let outputActivation = (state.problem === Problem.REGRESSION) ?
-      nn.Activations.LINEAR : nn.Activations.TANH;
-  network = nn.buildNetwork(shape, state.activation, outputActivation,
-      state.regularization, constructInputIds(), state.initZero);
-  lossTrain = getLoss(network, trainData);
-  lossTest = getLoss(network, testData);
+  let shape = [numInputs].concat(state.networkShape)
+      .concat([getNumOutputs()]);
+  let initRandom = seededRandom(state.initSeed);
+  network = nn.buildNetwork(shape, getLayerActivations(),
+      getOutputActivation(), state.regularization, constructInputIds(),
+      state.initializer, initRandom);
+  addSkipConnections(network, initRandom);
+  applyLinkEdits(network, initRandom);
+  applyFrozenParams(network);
+  // Se guarda después de aplicar los enlaces para no conservar los que se
+  // descartaron.
+  state.serialize();
+  nn.setDropoutRates(network, state.dropoutRates);
+  nn.setBatchNorm(network, state.batchNorm);
+  if (params != null) {
+    setParams(network, params);
+    // Los parámetros de un modelo traen sus propios nodos congelados.
+    storeFrozenParams(network);
+  }
+  droppedNodeIds = {};
+  lossTrain = 0;
+  lossTest = 0;
+  lastPrune = null;
+  updateInputBoundaries();
+  networkVersion++;
+  sendConfig();
+  postToTrainer({
+    type: "network",
+    version: networkVersion,
+    spec: getNetworkSpec(network),
+    params: getParams(network),
+    grid: boundaryGrid,
+    train: getTrainingSet(trainData),
+    test: getTrainingSet(testData),
+    batchSeed: state.batchSeed
+  });
   drawNetwork(network);
-  updateUI(true);
+  drawOutputHeatMaps(network);
+  updateUI();
 };
 
 function initTutorial() {
@@ -921,18 +2590,24 @@ function initTutorial() {
   });
 }
 
+/** Dibuja los puntos en un lienzo de 100x100 que cubre xDomain. */
+function drawPoints(canvas, data: Example2D[], isMultiClass: boolean) {
+  let w = 100;
+  let h = 100;
+  canvas.setAttribute("width", w);
+  canvas.setAttribute("height", h);
+  let context = canvas.getContext("2d");
+  context.clearRect(0, 0, w, h);
+  data.forEach(function(d) {
+    context.fillStyle = isMultiClass ?
+        CLASS_COLORS[d.label] : colorScale(d.label);
+    context.fillRect(w * (d.x + 6) / 12, h * (d.y + 6) / 12, 4, 4);
+  });
+}
+
 function drawDatasetThumbnails() {
-  function renderThumbnail(canvas, dataGenerator) {
-    let w = 100;
-    let h = 100;
-    canvas.setAttribute("width", w);
-    canvas.setAttribute("height", h);
-    let context = canvas.getContext("2d");
-    let data = dataGenerator(200, 0);
-    data.forEach(function(d) {
-      context.fillStyle = colorScale(d.label);
-      context.fillRect(w * (d.x + 6) / 12, h * (d.y + 6) / 12, 4, 4);
-    });
+  function renderThumbnail(canvas, dataGenerator, isMultiClass = false) {
+    drawPoints(canvas, dataGenerator(200, 0, state.numClasses), isMultiClass);
     d3.select(canvas.parentNode).style("display", null);
   }
   d3.selectAll(".dataset").style("display", "none");
@@ -953,6 +2628,19 @@ function drawDatasetThumbnails() {
       renderThumbnail(canvas, dataGenerator);
     }
   }
+  if (state.problem === Problem.MULTICLASS) {
+    for (let multiDataset in multiDatasets) {
+      let canvas: any = document.querySelector(
+          `canvas[data-multiDataset=${multiDataset}]`);
+      let dataGenerator = multiDatasets[multiDataset];
+      renderThumbnail(canvas, dataGenerator, true);
+    }
+  }
+  let showNumClasses = state.problem === Problem.MULTICLASS &&
+      state.getHiddenProps().indexOf("numClasses") === -1 &&
+      getSelectedCustomDataset() == null;
+  d3.selectAll(".ui-numClasses")
+    .style("display", showNumClasses ? null : "none");
 }
 
 function hideControls() {
@@ -994,22 +2682,27 @@ function hideControls() {
 
 function generateData(firstTime = false) {
   if (!firstTime) {
-    state.seed = Math.random().toFixed(5);
     state.serialize();
     userHasInteracted();
   }
-  Math.seedrandom(state.seed);
   let numSamples = (state.problem === Problem.REGRESSION) ?
       NUM_SAMPLES_REGRESS : NUM_SAMPLES_CLASSIFY;
   let generator = state.problem === Problem.CLASSIFICATION ?
-      state.dataset : state.regDataset;
-  let data = generator(numSamples, state.noise / 100);
-  shuffle(data);
+      state.dataset : (state.problem === Problem.MULTICLASS ?
+      state.multiDataset : state.regDataset);
+  let data = generatePoints(generator, seededRandom(state.dataSeed),
+      numSamples, state.noise / 100, state.numClasses);
+  heatMap.setNumClasses(
+      state.problem === Problem.MULTICLASS ? state.numClasses : 0);
+  shuffle(data, seededRandom(state.splitSeed));
   let splitIndex = Math.floor(data.length * state.percTrainData / 100);
   trainData = data.slice(0, splitIndex);
   testData = data.slice(splitIndex);
-  heatMap.updatePoints(trainData);
-  heatMap.updateTestPoints(state.showTestData ? testData : []);
+  // Los datos nuevos descartan las ediciones.
+  editHistory = [];
+  updateHeatMapPoints();
+  updatePointEditorControls();
+  sendData();
 }
 
 let firstInteraction = true;
@@ -0,0 +1,129 @@
+import * as nn from "./nn";
+
+/** Cómo elegir los parámetros que se podan. */
+export enum PruneMethod {
+  /** Los pesos de menor valor absoluto. */
+  WEIGHTS,
+  /** Las neuronas ocultas cuyos pesos de salida tienen menor norma. */
+  NEURONS
+}
+
+/** La pérdida de la red justo antes y justo después de una poda. */
+export interface PruneResult {
+  lossTrainBefore: number;
+  lossTestBefore: number;
+  lossTrainAfter: number;
+  lossTestAfter: number;
+}
+
+function getLiveLinks(network: nn.Node[][]): nn.Link[] {
+  let links: nn.Link[] = [];
+  nn.forEachNode(network, true, node => {
+    node.inputLinks.forEach(link => {
+      if (!link.isDead) {
+        links.push(link);
+      }
+    });
+  });
+  return links;
+}
+
+function killLink(link: nn.Link): void {
+  link.weight = 0;
+  link.isDead = true;
+}
+
+/**
+ * Poda la fracción dada de los pesos que siguen vivos, empezando por los de
+ * menor valor absoluto. Como L1, deja cada peso podado en 0 y marca su
+ * enlace como muerto.
+ *
+ * @return La cantidad de pesos podados.
+ */
+export function pruneWeights(network: nn.Node[][], fraction: number): number {
+  let links = getLiveLinks(network)
+      .sort((a, b) => Math.abs(a.weight) - Math.abs(b.weight));
+  let numPruned = Math.floor(fraction * links.length);
+  links.slice(0, numPruned).forEach(killLink);
+  return numPruned;
+}
+
+/** Norma L2 de los pesos vivos que salen del nodo. */
+function getOutgoingNorm(node: nn.Node): number {
+  let sum = 0;
+  node.outputs.forEach(link => {
+    if (!link.isDead) {
+      sum += link.weight * link.weight;
+    }
+  });
+  return Math.sqrt(sum);
+}
+
+/**
+ * Poda la fracción dada de las neuronas ocultas que siguen vivas, empezando
+ * por las de menor norma de salida. Podar una neurona mata todos sus
+ * enlaces de entrada y de salida. Una neurona está viva mientras le quede
+ * algún enlace de salida vivo.
+ *
+ * @return La cantidad de neuronas podadas.
+ */
+export function pruneNeurons(network: nn.Node[][], fraction: number): number {
+  let nodes: nn.Node[] = [];
+  for (let layerIdx = 1; layerIdx < network.length - 1; layerIdx++) {
+    network[layerIdx].forEach(node => {
+      if (node.outputs.some(link => !link.isDead)) {
+        nodes.push(node);
+      }
+    });
+  }
+  nodes.sort((a, b) => getOutgoingNorm(a) - getOutgoingNorm(b));
+  let numPruned = Math.floor(fraction * nodes.length);
+  nodes.slice(0, numPruned).forEach(node => {
+    node.inputLinks.forEach(killLink);
+    node.outputs.forEach(killLink);
+  });
+  return numPruned;
+}
+
+/** Aplica el método de poda con la fracción dada. */
+export function prune(network: nn.Node[][], method: PruneMethod,
+    fraction: number): number {
+  return method === PruneMethod.NEURONS ?
+      pruneNeurons(network, fraction) : pruneWeights(network, fraction);
+}
+
+/**
+ * Revive todos los enlaces muertos, tanto los podados como los que L1 llevó
+ * a 0. Vuelven con peso 0 y sin estado del optimizador, así que la salida
+ * de la red no cambia hasta que el entrenamiento los actualiza.
+ *
+ * @return La cantidad de enlaces revividos.
+ */
+export function reviveLinks(network: nn.Node[][]): number {
+  let numRevived = 0;
+  nn.forEachNode(network, true, node => {
+    node.inputLinks.forEach(link => {
+      if (link.isDead) {
+        link.isDead = false;
+        link.optimizerState = new nn.OptimizerState();
+        numRevived++;
+      }
+    });
+  });
+  return numRevived;
+}
+
+/** Fracción de los enlaces de la red que están muertos. */
+export function getSparsity(network: nn.Node[][]): number {
+  let numLinks = 0;
+  let numDead = 0;
+  nn.forEachNode(network, true, node => {
+    node.inputLinks.forEach(link => {
+      numLinks++;
+      if (link.isDead) {
+        numDead++;
+      }
+    });
+  });
+  return numLinks > 0 ? numDead / numLinks : 0;
+}
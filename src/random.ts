@@ -0,0 +1,33 @@
+import seedrandom from "seedrandom";
+
+/** Un generador de números pseudoaleatorios en [0, 1). */
+export type RandomFunction = () => number;
+
+/**
+ * Crea un generador con su propia semilla. A diferencia de Math.seedrandom,
+ * no reemplaza Math.random, así que cada fuente de aleatoriedad tiene su
+ * propia secuencia y no depende de quién más la haya usado.
+ */
+export function seededRandom(seed: string): RandomFunction {
+  return seedrandom(seed);
+}
+
+/** Una semilla nueva, en el formato que se guarda en la URL. */
+export function newSeed(): string {
+  return Math.random().toFixed(5);
+}
+
+/** Baraja el arreglo en su lugar con el algoritmo de Fisher-Yates. */
+export function shuffle(array: any[], random: RandomFunction = Math.random):
+    void {
+  let counter = array.length;
+  let temp = 0;
+  let index = 0;
+  while (counter > 0) {
+    index = Math.floor(random() * counter);
+    counter--;
+    temp = array[counter];
+    array[counter] = array[index];
+    array[index] = temp;
+  }
+}
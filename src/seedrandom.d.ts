@@ -1,5 +1,7 @@
-interface Math {
-  seedrandom: (seed: string) => void;
+declare module "seedrandom" {
+  /** Crea un generador con la semilla dada sin reemplazar Math.random. */
+  function seedrandom(seed?: string): () => number;
+  export = seedrandom;
 }
 
-declare let ga: any;
\ No newline at end of file
+declare let ga: any;
@@ -1,5 +1,7 @@
 import * as nn from "./nn";
 import * as dataset from "./dataset";
+import {newSeed} from "./random";
+import {LoopMode} from "./training";
 
 const HIDE_STATE_SUFFIX = "_hide";
 
@@ -7,13 +9,53 @@ export let activations: {[key: string]: nn.ActivationFunction} = {
   "relu": nn.Activations.RELU,
   "tanh": nn.Activations.TANH,
   "sigmoid": nn.Activations.SIGMOID,
-  "linear": nn.Activations.LINEAR
+  "linear": nn.Activations.LINEAR,
+  "leakyrelu": nn.Activations.LEAKY_RELU,
+  "elu": nn.Activations.ELU,
+  "selu": nn.Activations.SELU,
+  "softplus": nn.Activations.SOFTPLUS,
+  "swish": nn.Activations.SWISH,
+  "gelu": nn.Activations.GELU,
+  "sine": nn.Activations.SINE,
+  "gaussian": nn.Activations.GAUSSIAN
+};
+
+export let losses: {[key: string]: nn.ErrorFunction} = {
+  "square": nn.Errors.SQUARE,
+  "crossentropy": nn.Errors.CROSS_ENTROPY,
+  "hinge": nn.Errors.HINGE,
+  "huber": nn.Errors.HUBER
+};
+
+export let optimizers: {[key: string]: nn.Optimizer} = {
+  "sgd": nn.Optimizers.SGD,
+  "momentum": nn.Optimizers.MOMENTUM,
+  "nesterov": nn.Optimizers.NESTEROV,
+  "rmsprop": nn.Optimizers.RMSPROP,
+  "adam": nn.Optimizers.ADAM
+};
+
+export let lrSchedules: {[key: string]: nn.LearningRateSchedule} = {
+  "constant": nn.LearningRateSchedules.CONSTANT,
+  "step": nn.LearningRateSchedules.STEP,
+  "exponential": nn.LearningRateSchedules.EXPONENTIAL,
+  "cosine": nn.LearningRateSchedules.COSINE,
+  "warmup": nn.LearningRateSchedules.WARMUP
+};
+
+export let initializers: {[key: string]: nn.Initializer} = {
+  "uniform": nn.Initializers.UNIFORM,
+  "zero": nn.Initializers.ZERO,
+  "xavier": nn.Initializers.XAVIER,
+  "he": nn.Initializers.HE,
+  "lecun": nn.Initializers.LECUN
 };
 
 export let regularizations: {[key: string]: nn.RegularizationFunction} = {
   "none": null,
   "L1": nn.RegularizationFunction.L1,
-  "L2": nn.RegularizationFunction.L2
+  "L2": nn.RegularizationFunction.L2,
+  "elasticnet": nn.RegularizationFunction.ELASTIC_NET
 };
 
 export let datasets: {[key: string]: dataset.DataGenerator} = {
@@ -25,7 +67,15 @@ export let datasets: {[key: string]: dataset.DataGenerator} = {
 
 export let regDatasets: {[key: string]: dataset.DataGenerator} = {
   "reg-plane": dataset.regressPlane,
-  "reg-gauss": dataset.regressGaussian
+  "reg-gauss": dataset.regressGaussian,
+  "reg-two-planes": dataset.regressTwoPlanes,
+  "reg-ring-wave": dataset.regressRingAndWave
+};
+
+export let multiDatasets: {[key: string]: dataset.DataGenerator} = {
+  "multi-gauss": dataset.classifyMultiGaussData,
+  "multi-spiral": dataset.classifyMultiSpiralData,
+  "multi-sector": dataset.classifySectorData
 };
 
 export function getKeyFromValue(obj: any, value: any): string {
@@ -62,12 +112,38 @@ export enum Type {
 
 export enum Problem {
   CLASSIFICATION,
-  REGRESSION
+  REGRESSION,
+  MULTICLASS
 }
 
 export let problems = {
   "classification": Problem.CLASSIFICATION,
-  "regression": Problem.REGRESSION
+  "regression": Problem.REGRESSION,
+  "multiclass": Problem.MULTICLASS
+};
+
+/** Qué capas se enlazan además de cada capa con la siguiente. */
+export enum SkipConnections {
+  NONE,
+  /** Las entradas también se enlazan directamente con la salida. */
+  INPUT_OUTPUT,
+  /** Cada capa también se enlaza con la que está dos capas después. */
+  SKIP_ONE,
+  /** Cada capa se enlaza con todas las capas posteriores. */
+  DENSE
+}
+
+export let skipConnections = {
+  "none": SkipConnections.NONE,
+  "input-output": SkipConnections.INPUT_OUTPUT,
+  "skip-one": SkipConnections.SKIP_ONE,
+  "dense": SkipConnections.DENSE
+};
+
+export let loopModes = {
+  "batch": LoopMode.BATCH,
+  "epoch": LoopMode.EPOCH,
+  "epochs": LoopMode.EPOCHS
 };
 
 export interface Property {
@@ -80,15 +156,46 @@ export class State {
 
   private static PROPS: Property[] = [
     {name: "activation", type: Type.OBJECT, keyMap: activations},
+    {name: "leakySlope", type: Type.NUMBER},
     {name: "regularization", type: Type.OBJECT, keyMap: regularizations},
+    {name: "loss", type: Type.OBJECT, keyMap: losses},
+    {name: "optimizer", type: Type.OBJECT, keyMap: optimizers},
     {name: "batchSize", type: Type.NUMBER},
+    {name: "loopMode", type: Type.OBJECT, keyMap: loopModes},
+    {name: "epochsPerStep", type: Type.NUMBER},
+    {name: "stepsPerSecond", type: Type.NUMBER},
     {name: "dataset", type: Type.OBJECT, keyMap: datasets},
     {name: "regDataset", type: Type.OBJECT, keyMap: regDatasets},
+    {name: "multiDataset", type: Type.OBJECT, keyMap: multiDatasets},
+    {name: "numClasses", type: Type.NUMBER},
     {name: "learningRate", type: Type.NUMBER},
+    {name: "lrSchedule", type: Type.OBJECT, keyMap: lrSchedules},
+    {name: "lrPeriod", type: Type.NUMBER},
+    {name: "lrDecay", type: Type.NUMBER},
     {name: "regularizationRate", type: Type.NUMBER},
+    {name: "l1Rate", type: Type.NUMBER},
+    {name: "l2Rate", type: Type.NUMBER},
+    {name: "maxNorm", type: Type.NUMBER},
+    {name: "weightDecay", type: Type.NUMBER},
+    {name: "layerRegRates", type: Type.ARRAY_NUMBER},
+    {name: "clipValue", type: Type.NUMBER},
+    {name: "clipNorm", type: Type.NUMBER},
+    {name: "patience", type: Type.NUMBER},
+    {name: "minDelta", type: Type.NUMBER},
     {name: "noise", type: Type.NUMBER},
     {name: "networkShape", type: Type.ARRAY_NUMBER},
-    {name: "seed", type: Type.STRING},
+    {name: "layerActivations", type: Type.ARRAY_STRING},
+    {name: "dropoutRates", type: Type.ARRAY_NUMBER},
+    {name: "batchNorm", type: Type.BOOLEAN},
+    {name: "skipConnections", type: Type.OBJECT, keyMap: skipConnections},
+    {name: "addedLinks", type: Type.ARRAY_STRING},
+    {name: "removedLinks", type: Type.ARRAY_STRING},
+    {name: "frozenNodes", type: Type.ARRAY_STRING},
+    {name: "frozenLinks", type: Type.ARRAY_STRING},
+    {name: "dataSeed", type: Type.STRING},
+    {name: "splitSeed", type: Type.STRING},
+    {name: "initSeed", type: Type.STRING},
+    {name: "batchSeed", type: Type.STRING},
     {name: "showTestData", type: Type.BOOLEAN},
     {name: "discretize", type: Type.BOOLEAN},
     {name: "percTrainData", type: Type.NUMBER},
@@ -104,28 +211,58 @@ export class State {
     {name: "collectStats", type: Type.BOOLEAN},
     {name: "tutorial", type: Type.STRING},
     {name: "problem", type: Type.OBJECT, keyMap: problems},
-    {name: "initZero", type: Type.BOOLEAN},
+    {name: "initializer", type: Type.OBJECT, keyMap: initializers},
     {name: "hideText", type: Type.BOOLEAN}
   ];
 
   [key: string]: any;
   learningRate = 0.03;
+  lrSchedule = nn.LearningRateSchedules.CONSTANT;
+  lrPeriod = 100;
+  lrDecay = 0.5;
   regularizationRate = 0;
+  l1Rate = 0.001;
+  l2Rate = 0.001;
+  maxNorm = 0;
+  weightDecay = 0;
+  /** Factor de la regularización de cada capa oculta; 1 si falta. */
+  layerRegRates: number[] = [];
+  clipValue = 0;
+  clipNorm = 0;
+  patience = 0;
+  minDelta = 0;
   showTestData = false;
   noise = 0;
   batchSize = 10;
+  loopMode = LoopMode.EPOCH;
+  epochsPerStep = 5;
+  /** Pasos del bucle de entrenamiento por segundo; 0 sin límite. */
+  stepsPerSecond = 0;
   discretize = false;
   tutorial: string = null;
   percTrainData = 50;
   activation = nn.Activations.TANH;
+  leakySlope = 0.01;
   regularization: nn.RegularizationFunction = null;
+  loss = nn.Errors.SQUARE;
+  optimizer = nn.Optimizers.SGD;
   problem = Problem.CLASSIFICATION;
-  initZero = false;
+  initializer = nn.Initializers.UNIFORM;
   hideText = false;
   collectStats = false;
   numHiddenLayers = 1;
   hiddenLayerControls: any[] = [];
   networkShape: number[] = [4, 2];
+  layerActivations: string[] = [];
+  dropoutRates: number[] = [];
+  batchNorm = false;
+  skipConnections = SkipConnections.NONE;
+  /** Ids de los enlaces que el usuario agregó o quitó a mano. */
+  addedLinks: string[] = [];
+  removedLinks: string[] = [];
+  /** Ids de los nodos y enlaces congelados, que siguen así al reiniciar. */
+  frozenNodes: string[] = [];
+  frozenLinks: string[] = [];
   x = true;
   y = true;
   xTimesY = false;
@@ -137,7 +274,17 @@ export class State {
   sinY = false;
   dataset: dataset.DataGenerator = dataset.classifyCircleData;
   regDataset: dataset.DataGenerator = dataset.regressPlane;
-  seed: string;
+  multiDataset: dataset.DataGenerator = dataset.classifyMultiGaussData;
+  numClasses = 3;
+  /**
+   * Semillas de cada fuente de aleatoriedad: los puntos, su división en
+   * entrenamiento y prueba, los pesos iniciales y el orden de los
+   * mini-lotes junto con las máscaras de dropout.
+   */
+  dataSeed: string;
+  splitSeed: string;
+  initSeed: string;
+  batchSeed: string;
 
   static deserializeState(): State {
     let map: {[key: string]: string} = {};
@@ -196,14 +343,22 @@ export class State {
       }
     });
 
+    // Los enlaces antiguos usaban initZero=true en lugar de initializer.
+    if (map["initZero"] === "true" && !hasKey("initializer")) {
+      state.initializer = nn.Initializers.ZERO;
+    }
+
     getHideProps(map).forEach(prop => {
       state[prop] = (map[prop] === "true") ? true : false;
     });
     state.numHiddenLayers = state.networkShape.length;
-    if (state.seed == null) {
-      state.seed = Math.random().toFixed(5);
-    }
-    Math.seedrandom(state.seed);
+    nn.Activations.leakyReluSlope = state.leakySlope;
+    // Los enlaces antiguos tenían una sola semilla para todo.
+    ["dataSeed", "splitSeed", "initSeed", "batchSeed"].forEach(name => {
+      if (state[name] == null) {
+        state[name] = hasKey("seed") ? map["seed"] : newSeed();
+      }
+    });
     return state;
   }
 
@@ -0,0 +1,509 @@
+import * as nn from "./nn";
+import {PackedNetwork} from "./packednetwork";
+import {PruneMethod, PruneResult, prune, reviveLinks} from "./pruning";
+import {RandomFunction, seededRandom, shuffle} from "./random";
+import {
+  NetworkParams,
+  NetworkSpec,
+  buildFromSpec,
+  getParams,
+  setParams
+} from "./networkstate";
+
+/** Cuánto entrena cada paso del bucle de entrenamiento. */
+export enum LoopMode {
+  /** Un solo mini-lote. */
+  BATCH,
+  /** Una época completa. */
+  EPOCH,
+  /** epochsPerStep épocas. */
+  EPOCHS
+}
+
+/**
+ * Los hiperparámetros que se pueden cambiar sin reconstruir la red. Las
+ * funciones se identifican por su nombre en nn, como en NetworkSpec.
+ */
+export interface TrainingConfig {
+  learningRate: number;
+  lrSchedule: string;
+  lrPeriod: number;
+  lrDecay: number;
+  optimizer: string;
+  loss: string;
+  regularizationRate: number;
+  constraints: nn.WeightConstraints;
+  clipValue: number;
+  clipNorm: number;
+  /**
+   * Épocas sin mejorar la pérdida de prueba en al menos minDelta tras las
+   * que se detiene el entrenamiento. Con 0 no se detiene.
+   */
+  patience: number;
+  minDelta: number;
+  batchSize: number;
+  dropoutRates: number[];
+  leakySlope: number;
+  loopMode: LoopMode;
+  epochsPerStep: number;
+  /**
+   * Pasos del bucle por segundo mientras se entrena. Con 0 entrena tan
+   * rápido como puede.
+   */
+  stepsPerSecond: number;
+}
+
+/** Entradas ya transformadas de cada ejemplo y sus objetivos. */
+export interface TrainingSet {
+  inputs: number[][];
+  targets: number[][];
+}
+
+/**
+ * Mensajes que la página envía al worker de entrenamiento. version
+ * identifica cada red enviada para descartar instantáneas de redes viejas.
+ * batchSeed es la semilla del orden de los mini-lotes y de las máscaras de
+ * dropout de esa red.
+ */
+export type TrainerRequest =
+    {type: "network", version: number, spec: NetworkSpec,
+        params: NetworkParams, grid: number[][], train: TrainingSet,
+        test: TrainingSet, batchSeed: string} |
+    {type: "data", train: TrainingSet, test: TrainingSet} |
+    {type: "config", config: TrainingConfig} |
+    {type: "params", params: NetworkParams} |
+    {type: "prune", method: PruneMethod, fraction: number} |
+    {type: "pruneCycles", method: PruneMethod, fraction: number,
+        cycles: number, epochs: number} |
+    {type: "revive"} |
+    {type: "restoreBest"} |
+    {type: "start"} |
+    {type: "pause"} |
+    {type: "step"};
+
+/** El estado del entrenamiento que el worker envía a la página. */
+export interface Snapshot {
+  version: number;
+  /** Épocas completas. */
+  iter: number;
+  /** Actualizaciones de los parámetros, una por mini-lote. */
+  updates: number;
+  lossTrain: number;
+  lossTest: number;
+  /**
+   * Pérdida de entrenamiento, de prueba y tasa de aprendizaje de cada época
+   * desde la instantánea anterior.
+   */
+  history: number[][];
+  params: NetworkParams;
+  /**
+   * Salida de cada nodo que no es de entrada en cada punto de la
+   * cuadrícula, en el mismo orden que grid.
+   */
+  boundary: {[nodeId: string]: Float64Array};
+  droppedNodeIds: {[id: string]: boolean};
+  /** True si el entrenamiento se detuvo por valores no finitos. */
+  diverged: boolean;
+  /**
+   * Primera capa con parámetros no finitos, o -1 si solo la pérdida dejó
+   * de ser finita.
+   */
+  divergedLayer: number;
+  /** La última poda desde la instantánea anterior, o null si no hubo. */
+  pruneResult: PruneResult;
+  /** True si terminaron los ciclos de poda y reentrenamiento. */
+  pruneCyclesDone: boolean;
+  /** Época con la mejor pérdida de prueba, o 0 si aún no hay ninguna. */
+  bestIter: number;
+  bestLossTest: number;
+  /** True si la parada temprana detuvo el entrenamiento. */
+  stoppedEarly: boolean;
+}
+
+/** Ciclos de poda y reentrenamiento en curso. */
+type PruneCycles = {
+  method: PruneMethod;
+  fraction: number;
+  /** Podas que faltan después de la actual. */
+  remaining: number;
+  epochs: number;
+  /** Época en la que termina el reentrenamiento actual. */
+  nextIter: number;
+};
+
+/**
+ * Entrena una red con los datos y la configuración recibidos. No depende
+ * del DOM, por lo que puede ejecutarse dentro de un Web Worker.
+ */
+export class Trainer {
+  iter = 0;
+  updates = 0;
+  isRunning = false;
+  private version = 0;
+  private network: nn.Node[][] = null;
+  private packed: PackedNetwork = null;
+  private grid: number[][] = [];
+  private config: TrainingConfig = null;
+  private trainData: TrainingSet = {inputs: [], targets: []};
+  private testData: TrainingSet = {inputs: [], targets: []};
+  private lossTrain = 0;
+  private lossTest = 0;
+  private history: number[][] = [];
+  private droppedNodeIds: {[id: string]: boolean} = {};
+  private diverged = false;
+  private divergedLayer = -1;
+  private pruneResult: PruneResult = null;
+  private pruneCycles: PruneCycles = null;
+  private pruneCyclesDone = false;
+  private bestIter = 0;
+  private bestLossTest = Infinity;
+  /** Los parámetros de la época bestIter. */
+  private bestParams: NetworkParams = null;
+  private stoppedEarly = false;
+  /** Baraja los ejemplos en cada época y decide qué nodos descartar. */
+  private random: RandomFunction = Math.random;
+  /**
+   * Orden de los ejemplos en la época en curso, o null si la próxima
+   * época aún no empezó.
+   */
+  private epochOrder: number[] = null;
+  /** Posición en epochOrder del próximo mini-lote. */
+  private batchStart = 0;
+
+  /** Devuelve true si ya hay una red con la que entrenar. */
+  hasNetwork(): boolean {
+    return this.network != null;
+  }
+
+  /**
+   * Reemplaza la red y reinicia el contador de épocas. Los datos llegan
+   * junto con la red porque sus entradas dependen de las mismas
+   * características. Con la misma semilla, el entrenamiento de la red se
+   * repite exactamente.
+   */
+  setNetwork(version: number, spec: NetworkSpec, params: NetworkParams,
+      grid: number[][], trainData: TrainingSet, testData: TrainingSet,
+      batchSeed: string): void {
+    this.version = version;
+    this.random = seededRandom(batchSeed);
+    this.trainData = trainData;
+    this.testData = testData;
+    this.network = buildFromSpec(spec, params);
+    this.packed = new PackedNetwork(this.network);
+    this.grid = grid;
+    this.iter = 0;
+    this.updates = 0;
+    this.epochOrder = null;
+    this.isRunning = false;
+    this.history = [];
+    this.droppedNodeIds = {};
+    this.diverged = false;
+    this.pruneResult = null;
+    this.pruneCycles = null;
+    this.applyConfig();
+    this.updateLosses();
+    this.resetBest();
+  }
+
+  setData(trainData: TrainingSet, testData: TrainingSet): void {
+    this.trainData = trainData;
+    this.testData = testData;
+    this.epochOrder = null;
+    if (this.network != null) {
+      this.updateLosses();
+      // Las pérdidas con otros datos no son comparables.
+      this.resetBest();
+    }
+  }
+
+  setConfig(config: TrainingConfig): void {
+    this.config = config;
+    if (this.network != null) {
+      this.applyConfig();
+    }
+  }
+
+  /** Reemplaza los parámetros, p. ej. tras editar un peso en la página. */
+  setParams(params: NetworkParams): void {
+    setParams(this.network, params);
+    this.updateLosses();
+  }
+
+  /**
+   * Entrena un paso del bucle según config.loopMode: un mini-lote, una
+   * época o epochsPerStep épocas. Con varias épocas se detiene antes si el
+   * entrenamiento diverge o termina.
+   */
+  trainStep(): void {
+    let config = this.config;
+    switch (config.loopMode) {
+      case LoopMode.BATCH:
+        this.trainBatch();
+        if (this.epochOrder != null) {
+          // A mitad de época las pérdidas no se actualizan solas.
+          this.updateLosses();
+        }
+        break;
+      case LoopMode.EPOCHS:
+        for (let i = 0; i < config.epochsPerStep; i++) {
+          this.trainEpoch();
+          if (this.diverged || this.stoppedEarly || this.pruneCyclesDone) {
+            break;
+          }
+        }
+        break;
+      default:
+        this.trainEpoch();
+    }
+  }
+
+  /** Entrena hasta terminar la época en curso. */
+  trainEpoch(): void {
+    let iter = this.iter;
+    do {
+      this.trainBatch();
+    } while (this.iter === iter);
+  }
+
+  /**
+   * Entrena con el siguiente mini-lote de la época. Cada época recorre los
+   * ejemplos en un orden aleatorio nuevo. Si algún parámetro deja de ser
+   * finito, la época termina ahí.
+   */
+  trainBatch(): void {
+    let config = this.config;
+    let trainData = this.trainData;
+    if (this.epochOrder == null) {
+      this.epochOrder = trainData.inputs.map((input, i) => i);
+      shuffle(this.epochOrder, this.random);
+      this.batchStart = 0;
+      this.divergedLayer = -1;
+    }
+    let batch = this.epochOrder.slice(this.batchStart,
+        this.batchStart + config.batchSize);
+    this.batchStart += batch.length;
+    if (batch.length > 0) {
+      this.packed.sync();
+      this.packed.forwardBatch(batch.map(i => trainData.inputs[i]), true,
+          this.random);
+      this.packed.backwardBatch(batch.map(i => trainData.targets[i]),
+          nn.Errors[config.loss]);
+      nn.updateWeights(this.network, this.getLearningRate(),
+          config.regularizationRate, nn.Optimizers[config.optimizer],
+          config.clipValue, config.clipNorm, config.constraints);
+      this.updates++;
+      this.divergedLayer = nn.findDivergedLayer(this.network);
+      // Recuerda qué nodos se descartaron antes de que la evaluación de la
+      // pérdida restablezca el dropout.
+      this.droppedNodeIds = {};
+      nn.forEachNode(this.network, true, node => {
+        if (node.dropoutScale === 0) {
+          this.droppedNodeIds[node.id] = true;
+        }
+      });
+    }
+    if (this.batchStart >= this.epochOrder.length ||
+        this.divergedLayer !== -1) {
+      this.finishEpoch();
+    }
+  }
+
+  /**
+   * Cierra la época: actualiza las pérdidas y, si algún parámetro o la
+   * pérdida deja de ser finito, detiene el entrenamiento.
+   */
+  private finishEpoch(): void {
+    let learningRate = this.getLearningRate();
+    this.epochOrder = null;
+    this.iter++;
+    this.updateLosses();
+    this.history.push([this.lossTrain, this.lossTest, learningRate]);
+    if (this.divergedLayer !== -1 || !isFinite(this.lossTrain)) {
+      this.diverged = true;
+      this.isRunning = false;
+      this.pruneCycles = null;
+    } else {
+      this.updateBest();
+    }
+    let cycles = this.pruneCycles;
+    if (cycles != null && this.iter >= cycles.nextIter) {
+      if (cycles.remaining > 0) {
+        cycles.remaining--;
+        cycles.nextIter += cycles.epochs;
+        this.prune(cycles.method, cycles.fraction);
+      } else {
+        this.pruneCycles = null;
+        this.pruneCyclesDone = true;
+        this.isRunning = false;
+      }
+    }
+  }
+
+  /**
+   * Milisegundos entre dos pasos del bucle según config.stepsPerSecond, o
+   * 0 para no esperar.
+   */
+  getStepInterval(): number {
+    let speed = this.config != null ? this.config.stepsPerSecond : 0;
+    return speed > 0 ? 1000 / speed : 0;
+  }
+
+  /** Poda la red y recuerda la pérdida justo antes y justo después. */
+  prune(method: PruneMethod, fraction: number): void {
+    let lossTrainBefore = this.lossTrain;
+    let lossTestBefore = this.lossTest;
+    prune(this.network, method, fraction);
+    this.updateLosses();
+    this.pruneResult = {
+      lossTrainBefore,
+      lossTestBefore,
+      lossTrainAfter: this.lossTrain,
+      lossTestAfter: this.lossTest
+    };
+  }
+
+  /**
+   * Poda la red ahora y después de cada tanda de epochs épocas, hasta
+   * completar la cantidad de ciclos dada. Tras el último reentrenamiento
+   * detiene el entrenamiento, que hay que iniciar aparte.
+   */
+  startPruneCycles(method: PruneMethod, fraction: number, cycles: number,
+      epochs: number): void {
+    this.pruneCycles = {method, fraction, remaining: cycles - 1, epochs,
+        nextIter: this.iter + epochs};
+    this.prune(method, fraction);
+  }
+
+  /**
+   * Guarda los parámetros si la pérdida de prueba mejoró en más de
+   * minDelta y detiene el entrenamiento si lleva patience épocas sin
+   * mejorar.
+   */
+  private updateBest(): void {
+    let config = this.config;
+    if (this.lossTest < this.bestLossTest - config.minDelta) {
+      this.bestIter = this.iter;
+      this.bestLossTest = this.lossTest;
+      this.bestParams = getParams(this.network);
+    } else if (config.patience > 0 &&
+        this.iter - this.bestIter >= config.patience) {
+      this.stoppedEarly = this.isRunning;
+      this.isRunning = false;
+      this.pruneCycles = null;
+    }
+  }
+
+  private resetBest(): void {
+    this.bestIter = 0;
+    this.bestLossTest = Infinity;
+    this.bestParams = null;
+  }
+
+  /**
+   * Vuelve a los parámetros de la época con la mejor pérdida de prueba. Los
+   * nodos y enlaces congelados siguen como están ahora: congelarlos es una
+   * decisión del usuario, no parte del entrenamiento.
+   */
+  restoreBest(): void {
+    if (this.bestParams != null) {
+      let current = getParams(this.network);
+      this.bestParams.isFrozen = current.isFrozen;
+      this.bestParams.isNodeFrozen = current.isNodeFrozen;
+      this.setParams(this.bestParams);
+    }
+  }
+
+  /** Revive los enlaces muertos; ver reviveLinks. */
+  revive(): void {
+    reviveLinks(this.network);
+    this.updateLosses();
+  }
+
+  /**
+   * Devuelve el estado actual, incluida la salida de cada nodo en la
+   * cuadrícula, y vacía el historial de pérdidas.
+   */
+  takeSnapshot(): Snapshot {
+    let snapshot: Snapshot = {
+      version: this.version,
+      iter: this.iter,
+      updates: this.updates,
+      lossTrain: this.lossTrain,
+      lossTest: this.lossTest,
+      history: this.history,
+      params: getParams(this.network),
+      boundary: this.computeBoundary(),
+      droppedNodeIds: this.droppedNodeIds,
+      diverged: this.diverged,
+      divergedLayer: this.divergedLayer,
+      pruneResult: this.pruneResult,
+      pruneCyclesDone: this.pruneCyclesDone,
+      bestIter: this.bestIter,
+      bestLossTest: this.bestLossTest,
+      stoppedEarly: this.stoppedEarly
+    };
+    this.history = [];
+    this.diverged = false;
+    this.pruneResult = null;
+    this.pruneCyclesDone = false;
+    this.stoppedEarly = false;
+    return snapshot;
+  }
+
+  private applyConfig(): void {
+    if (this.config == null) {
+      return;
+    }
+    nn.Activations.leakyReluSlope = this.config.leakySlope;
+    nn.setDropoutRates(this.network, this.config.dropoutRates);
+  }
+
+  /** Tasa de aprendizaje de la próxima época según el programa elegido. */
+  private getLearningRate(): number {
+    let config = this.config;
+    let schedule: nn.LearningRateSchedule =
+        nn.LearningRateSchedules[config.lrSchedule];
+    return schedule.rate(config.learningRate, this.iter, config.lrPeriod,
+        config.lrDecay);
+  }
+
+  private updateLosses(): void {
+    this.lossTrain = this.getLoss(this.trainData);
+    this.lossTest = this.getLoss(this.testData);
+  }
+
+  private getLoss(dataSet: TrainingSet): number {
+    if (this.config == null || dataSet.inputs.length === 0) {
+      return 0;
+    }
+    let packed = this.packed;
+    let errorFunc: nn.ErrorFunction = nn.Errors[this.config.loss];
+    let loss = 0;
+    packed.sync();
+    dataSet.inputs.forEach((input, i) => {
+      let outputs = packed.forward(input);
+      for (let k = 0; k < packed.numOutputs; k++) {
+        loss += errorFunc.error(outputs[packed.outputStart + k],
+            dataSet.targets[i][k]);
+      }
+    });
+    return loss / dataSet.inputs.length;
+  }
+
+  private computeBoundary(): {[nodeId: string]: Float64Array} {
+    let packed = this.packed;
+    let nodes = packed.nodes;
+    let boundary: {[nodeId: string]: Float64Array} = {};
+    for (let n = packed.numInputs; n < nodes.length; n++) {
+      boundary[nodes[n].id] = new Float64Array(this.grid.length);
+    }
+    packed.sync();
+    this.grid.forEach((input, p) => {
+      let outputs = packed.forward(input);
+      for (let n = packed.numInputs; n < nodes.length; n++) {
+        boundary[nodes[n].id][p] = outputs[n];
+      }
+    });
+    return boundary;
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Punto de entrada del Web Worker que entrena la red. Recibe los mensajes
+ * TrainerRequest de la página y, mientras entrena, le envía como mucho una
+ * instantánea cada SLICE_MS milisegundos, sin importar cuántos pasos del
+ * bucle se den entre dos instantáneas.
+ */
+import {Snapshot, Trainer, TrainerRequest} from "./training";
+
+/** Tiempo mínimo entre dos instantáneas. */
+const SLICE_MS = 40;
+
+let ctx: Worker = self as any;
+let trainer = new Trainer();
+let isLoopScheduled = false;
+let lastSnapshotTime = 0;
+
+ctx.onmessage = (event: MessageEvent) => {
+  let request: TrainerRequest = event.data;
+  switch (request.type) {
+    case "network":
+      trainer.setNetwork(request.version, request.spec, request.params,
+          request.grid, request.train, request.test, request.batchSeed);
+      postSnapshot();
+      break;
+    case "data":
+      trainer.setData(request.train, request.test);
+      postSnapshot();
+      break;
+    case "config":
+      trainer.setConfig(request.config);
+      break;
+    case "params":
+      trainer.setParams(request.params);
+      postSnapshot();
+      break;
+    case "prune":
+      trainer.prune(request.method, request.fraction);
+      postSnapshot();
+      break;
+    case "pruneCycles":
+      trainer.startPruneCycles(request.method, request.fraction,
+          request.cycles, request.epochs);
+      postSnapshot();
+      break;
+    case "restoreBest":
+      trainer.restoreBest();
+      postSnapshot();
+      break;
+    case "revive":
+      trainer.revive();
+      postSnapshot();
+      break;
+    case "start":
+      trainer.isRunning = true;
+      scheduleLoop();
+      break;
+    case "pause":
+      trainer.isRunning = false;
+      // Muestra los pasos que se dieron desde la última instantánea.
+      postSnapshot();
+      break;
+    case "step":
+      trainer.isRunning = false;
+      trainer.trainStep();
+      postSnapshot();
+      break;
+  }
+};
+
+function scheduleLoop() {
+  if (isLoopScheduled) {
+    return;
+  }
+  isLoopScheduled = true;
+  // setTimeout deja que los mensajes pendientes se procesen entre pasos. Sin
+  // límite de velocidad, se dan todos los pasos que caben en SLICE_MS.
+  let interval = trainer.getStepInterval();
+  setTimeout(() => {
+    isLoopScheduled = false;
+    if (!trainer.isRunning) {
+      return;
+    }
+    let end = Date.now() + SLICE_MS;
+    do {
+      trainer.trainStep();
+    } while (interval === 0 && trainer.isRunning && Date.now() < end);
+    if (!trainer.isRunning || Date.now() - lastSnapshotTime >= SLICE_MS) {
+      postSnapshot();
+    }
+    scheduleLoop();
+  }, interval);
+}
+
+function postSnapshot() {
+  if (!trainer.hasNetwork()) {
+    return;
+  }
+  lastSnapshotTime = Date.now();
+  let snapshot: Snapshot = trainer.takeSnapshot();
+  let buffers: ArrayBuffer[] = [];
+  for (let nodeId in snapshot.boundary) {
+    buffers.push(snapshot.boundary[nodeId].buffer as ArrayBuffer);
+  }
+  ctx.postMessage(snapshot, buffers);
+}
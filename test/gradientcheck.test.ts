@@ -0,0 +1,22 @@
+import {GRADIENT_TOLERANCE, checkAllFunctions} from "../src/gradientcheck";
+
+describe("checkAllFunctions", () => {
+  it("matches the numerical gradients of every activation and loss", () => {
+    let failures = checkAllFunctions()
+        .filter(result => !(result.maxError < GRADIENT_TOLERANCE))
+        .map(result => `${result.activation}/${result.loss}` +
+            `${result.batchNorm ? " with batch norm" : ""}: ` +
+            result.maxError);
+    if (failures.length > 0) {
+      throw new Error("Gradient check failed for " + failures.join(", "));
+    }
+  });
+
+  it("gives the same result with the same seed", () => {
+    let first = JSON.stringify(checkAllFunctions("test"));
+    let second = JSON.stringify(checkAllFunctions("test"));
+    if (first !== second) {
+      throw new Error("The results depend on more than the seed");
+    }
+  });
+});